@@ -41,6 +41,30 @@ export default defineConfig([
         navigator: "readonly",
         require: "readonly",
       }
+    },
+    rules: {
+      // Product names keep their casing inside the Chinese UI text
+      "obsidianmd/ui/sentence-case": ["error", {
+        enforceCamelCaseLower: true,
+        brands: ["Obsidian", "Markdown", "Pinbox", "Dataview", "WebP"],
+        // Command names are quoted as they appear in the command palette
+        ignoreRegex: ["命令\"[^\"]+\""],
+      }],
+    }
+  },
+  {
+    // Tests run in Node, outside Obsidian
+    files: ["tests/**/*.ts"],
+    languageOptions: {
+      globals: {
+        __dirname: "readonly",
+      }
+    },
+    rules: {
+      "import/no-nodejs-modules": "off",
+      // The obsidian stand-in uses the moment that comes with the obsidian package
+      "no-restricted-imports": "off",
+      "import/no-extraneous-dependencies": "off",
     }
   }
 ]);
@@ -1,9 +1,26 @@
-import { Notice, Plugin, MarkdownView, Modal, TFile, setIcon, normalizePath, addIcon } from 'obsidian';
+import { Editor, ItemView, Notice, Plugin, MarkdownView, Modal, TFile, TFolder, setIcon, addIcon, debounce } from 'obsidian';
 import { PinboxSyncerSettings, DEFAULT_SETTINGS } from './src/settings';
 import { PinboxAPI } from './src/pinboxApi';
-import { SyncService } from './src/syncService';
+import { RequestCancelledError, RequestScheduler } from './src/requestScheduler';
+import { PinboxNote, SyncService } from './src/syncService';
+import { SyncStatusBar } from './src/syncStatusBar';
 import { PinboxSettingTab } from './src/settingsTab';
 import { PinboxAuthModal } from './src/authModal';
+import { confirmAction } from './src/confirmModal';
+import { resolveEditConflict } from './src/conflictModal';
+import { diffLines } from './src/lineDiff';
+import { previewRefetch } from './src/refetchPreviewModal';
+import { formatFileSize } from './src/imageStore';
+import { SaveUrlDefaults, isWebUrl, promptSaveUrl } from './src/saveUrlModal';
+import { chooseCollection } from './src/collectionSuggestModal';
+import { COLLECTION_MANAGER_VIEW_TYPE, CollectionManagerView } from './src/collectionManagerView';
+import { promptText } from './src/textPromptModal';
+import { chooseDeletedItem } from './src/deletedItemSuggestModal';
+import { TRASH_FOLDER } from './src/deletionQueue';
+
+const INCREMENTAL_SYNC_OVERLAP_MS = 24 * 60 * 60 * 1000;
+// How often due deletes of soft-deleted items are looked for
+const DELETION_QUEUE_INTERVAL_MS = 10 * 60 * 1000;
 
 interface AppWithPlugins {
 	plugins: {
@@ -16,6 +33,9 @@ export default class PinboxSyncerPlugin extends Plugin {
 	api: PinboxAPI;
 	syncService: SyncService;
 	syncInterval: number | null = null;
+	// Set while a sync runs, so two syncs never overlap
+	syncController: AbortController | null = null;
+	syncStatusBar: SyncStatusBar;
 
 	async onload() {
 		await this.loadSettings();
@@ -57,15 +77,11 @@ export default class PinboxSyncerPlugin extends Plugin {
 			console.debug('[PinboxSyncer] Dataview index enabled:', this.settings.enableDataviewIndex);
 		}
 
-		// Initialize API and sync service
-		this.api = new PinboxAPI(this.settings.accessToken);
-		this.syncService = new SyncService(
-			this.app,
-			this.api,
-			this.settings.syncFolder,
-			this.settings.downloadImages,
-			this.settings.imageFolder
-		);
+		// Initialize API and sync service, sharing one request scheduler
+		const scheduler = new RequestScheduler(this.settings);
+		this.api = new PinboxAPI(this.settings.accessToken, scheduler);
+		this.syncService = new SyncService(this.app, this.api, this.settings, scheduler);
+		this.syncStatusBar = new SyncStatusBar(this.addStatusBarItem(), () => this.cancelSync());
 
 		// Add ribbon icon
 // /skip I need use Chinese due to the majority of the target users is Chinese.
@@ -83,6 +99,52 @@ export default class PinboxSyncerPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'full-sync-pinbox',
+			name: 'Full sync of all bookmarks from Pinbox',
+			callback: () => {
+				void this.syncBookmarks(true);
+			}
+		});
+
+		this.addCommand({
+			id: 'retry-failed-content-pinbox',
+			name: 'Retry failed content fetches',
+			callback: () => {
+				void this.retryFailedContent();
+			}
+		});
+
+		this.addCommand({
+			id: 'clean-up-attachments-pinbox',
+			name: 'Clean up orphaned attachments',
+			callback: () => {
+				void this.cleanUpAttachments();
+			}
+		});
+
+		this.addCommand({
+			id: 'save-url-pinbox',
+			name: 'Save URL to Pinbox',
+			callback: () => {
+				void this.saveUrlToPinbox(this.getCurrentPage());
+			}
+		});
+
+		this.addCommand({
+			id: 'cancel-sync-pinbox',
+			name: 'Cancel the running Pinbox sync',
+			checkCallback: (checking: boolean) => {
+				if (!this.syncController) {
+					return false;
+				}
+				if (!checking) {
+					this.cancelSync();
+				}
+				return true;
+			}
+		});
+
 // /skip I need use Chinese due to the majority of the target users is Chinese.
 		this.addCommand({
 			id: 'authenticate-pinbox',
@@ -108,6 +170,46 @@ export default class PinboxSyncerPlugin extends Plugin {
 			}
 		});
 
+		this.addCommand({
+			id: 'delete-matching-pinbox-items',
+			name: 'Delete all notes matching search',
+			callback: () => {
+				void this.deleteMatchingItems();
+			}
+		});
+
+		this.addCommand({
+			id: 'restore-pinbox-item',
+			name: 'Restore deleted Pinbox item',
+			callback: () => {
+				void this.restoreDeletedItem();
+			}
+		});
+
+		this.addCommand({
+			id: 'run-pinbox-deletions',
+			name: 'Delete queued items from Pinbox now',
+			callback: () => {
+				void this.runDeletionQueue(true);
+			}
+		});
+
+		this.addCommand({
+			id: 'move-pinbox-item',
+			name: 'Move current item to collection…',
+			editorCallback: async (editor, view) => {
+				await this.moveCurrentItem(view.file);
+			}
+		});
+
+		this.addCommand({
+			id: 'refetch-pinbox-item',
+			name: 'Re-fetch web content of current note',
+			editorCallback: async (editor, view) => {
+				await this.refetchCurrentItem(view.file);
+			}
+		});
+
 // /skip I need use Chinese due to the majority of the target users is Chinese.
 		this.addCommand({
 			id: 'create-pinbox-index',
@@ -117,6 +219,15 @@ export default class PinboxSyncerPlugin extends Plugin {
 			}
 		});
 
+		this.registerView(COLLECTION_MANAGER_VIEW_TYPE, (leaf) => new CollectionManagerView(leaf, this));
+		this.addCommand({
+			id: 'open-collection-manager-pinbox',
+			name: 'Open collection manager',
+			callback: () => {
+				void this.openCollectionManager();
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new PinboxSettingTab(this.app, this));
 
@@ -129,6 +240,74 @@ export default class PinboxSyncerPlugin extends Plugin {
 			})
 		);
 
+		// Save links from notes: external links in reading view and live preview,
+		// and the link under the cursor in the editor
+		this.registerEvent(
+			this.app.workspace.on('url-menu', (menu, url) => {
+				if (isWebUrl(url)) {
+					menu.addItem(item => item
+						.setTitle('保存到 Pinbox') // /skip I need use Chinese due to the majority of the target users is Chinese.
+						.setIcon('pinbox-sync')
+						.onClick(() => void this.saveUrlToPinbox({ url })));
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.workspace.on('editor-menu', (menu, editor) => {
+				const link = getLinkAtCursor(editor);
+				if (link) {
+					menu.addItem(item => item
+						.setTitle('保存链接到 Pinbox') // /skip I need use Chinese due to the majority of the target users is Chinese.
+						.setIcon('pinbox-sync')
+						.onClick(() => void this.saveUrlToPinbox(link)));
+				}
+			})
+		);
+
+		// Bulk delete from the file explorer: a folder, or several selected notes
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu, file) => {
+				if (file instanceof TFolder) {
+					const notes = this.syncService.collectPinboxNotes([file]);
+					if (notes.length > 0) {
+						menu.addItem(item => item
+							.setTitle(`从 Pinbox 删除文件夹中的 ${notes.length} 个书签`) // /skip I need use Chinese due to the majority of the target users is Chinese.
+							.setIcon('trash-2')
+							.onClick(() => void this.deleteItems(notes)));
+					}
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.workspace.on('files-menu', (menu, files) => {
+				const notes = this.syncService.collectPinboxNotes(files);
+				if (notes.length > 0) {
+					menu.addItem(item => item
+						.setTitle(`从 Pinbox 删除 ${notes.length} 个书签`) // /skip I need use Chinese due to the majority of the target users is Chinese.
+						.setIcon('trash-2')
+						.onClick(() => void this.deleteItems(notes)));
+				}
+			})
+		);
+
+		// Keep the sync ledger in step with notes renamed or moved in the vault
+		const saveLedger = debounce(() => void this.saveSettings(), 2000, true);
+		this.registerEvent(
+			this.app.vault.on('rename', (file, oldPath) => {
+				if (this.syncService.handleRename(file, oldPath)) {
+					saveLedger();
+				}
+				// Notes moved by a sync or the plugin's own commands follow Pinbox, not the other way round
+				if (file instanceof TFile && this.settings.moveItemsWithNotes && !this.syncController) {
+					void this.moveItemWithNote(file, oldPath);
+				}
+			})
+		);
+
+		// Queued deletes of soft-deleted items, also run by every sync
+		this.app.workspace.onLayoutReady(() => void this.runDeletionQueue(false));
+		this.registerInterval(window.setInterval(() => void this.runDeletionQueue(false), DELETION_QUEUE_INTERVAL_MS));
+
 		// Start auto sync if enabled
 		if (this.settings.autoSync) {
 			this.startAutoSync();
@@ -139,41 +318,366 @@ export default class PinboxSyncerPlugin extends Plugin {
 
 	onunload() {
 		this.stopAutoSync();
+		this.cancelSync();
 		console.debug('Pinbox Syncer plugin unloaded');
 	}
 
 	async loadSettings() {
 		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<PinboxSyncerSettings>);
+		// Don't share the default objects with the sync service, it mutates the ledger, the queues and the image index
+		this.settings.syncLedger = { ...this.settings.syncLedger };
+		this.settings.contentRetryQueue = { ...this.settings.contentRetryQueue };
+		this.settings.deletionQueue = { ...this.settings.deletionQueue };
+		this.settings.imageIndex = {
+			images: { ...this.settings.imageIndex.images },
+			urls: { ...this.settings.imageIndex.urls },
+		};
 	}
 
 	async saveSettings() {
+		// The sync service holds a reference to this.settings, so it sees changes right away
 		await this.saveData(this.settings);
-		// Update sync service settings
-		this.syncService.setDownloadImages(this.settings.downloadImages);
-		this.syncService.setImageFolder(this.settings.imageFolder);
 	}
 
 	updateAPIToken(token: string) {
 		this.api.setAccessToken(token);
 	}
 
-	async syncBookmarks() {
+	async syncBookmarks(full: boolean = false) {
 		if (!this.settings.accessToken) {
 			new Notice('请先登录 Pinbox'); // /skip I need use Chinese due to the majority of the target users is Chinese.
 			return;
 		}
 
+		if (this.syncController) {
+			console.debug('[PinboxSyncer] A sync is already running, skipping');
+			new Notice('同步正在进行中'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		const controller = new AbortController();
+		this.syncController = controller;
+
+		// Record the start time so items created while syncing are picked up next time
+		const startedAt = Date.now();
+		const isFullSync = full || this.isFullSyncDue();
+
 		try {
-			await this.syncService.sync();
-			this.settings.lastSyncTime = Date.now();
-			await this.saveSettings();
+			const result = await this.syncService.sync(isFullSync ? 0 : this.getIncrementalSince(), {
+				signal: controller.signal,
+				onProgress: (progress) => {
+					if (!controller.signal.aborted) {
+						this.syncStatusBar.update(progress);
+					}
+				},
+				resolveConflict: (conflict) => resolveEditConflict(this.app, conflict)
+			});
+			// Keep the old cursor when a collection failed to load, so its items
+			// are fetched again next time instead of being skipped for good
+			if (result.complete) {
+				this.settings.lastSyncTime = startedAt;
+				if (isFullSync) {
+					this.settings.lastFullSyncTime = startedAt;
+				}
+			}
 
 			// Auto-create index if it doesn't exist
 			await this.autoCreateIndexIfNeeded();
 		} catch (error) {
-			console.error('Sync failed:', error);
+			// SyncService already told the user about the cancellation
+			if (!(error instanceof RequestCancelledError)) {
+				console.error('Sync failed:', error);
+				const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+				new Notice(`同步失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			}
+		} finally {
+			this.syncController = null;
+			this.syncStatusBar.clear();
+			// Persist the sync ledger even when the sync failed half way
+			await this.saveSettings();
+		}
+	}
+
+	async retryFailedContent() {
+		const queued = Object.keys(this.settings.contentRetryQueue).length;
+		if (queued === 0) {
+			new Notice('没有需要重试的书签'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		// Shares the lock with syncs, both write the same notes
+		if (this.syncController) {
+			new Notice('同步正在进行中'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		const controller = new AbortController();
+		this.syncController = controller;
+
+		new Notice(`正在重试 ${queued} 个书签的网页内容...`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		try {
+			const { succeeded, failed } = await this.syncService.retryFailedContent(controller.signal);
+			new Notice(`重试完成：成功 ${succeeded} 个，仍失败 ${failed} 个`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				new Notice('重试已取消'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			} else {
+				console.error('Retry failed:', error);
+				const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+				new Notice(`重试失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			}
+		} finally {
+			this.syncController = null;
+			this.syncStatusBar.clear();
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * What the save command starts with: the page open in a web viewer tab, or
+	 * the link selected or under the cursor in the editor.
+	 */
+	private getCurrentPage(): SaveUrlDefaults {
+		const view = this.app.workspace.getActiveViewOfType(ItemView);
+		if (view?.getViewType() === 'webviewer') {
+			const url: unknown = view.getState().url;
+			if (typeof url === 'string' && isWebUrl(url)) {
+				return { url, title: view.getDisplayText() };
+			}
+		}
+		const editor = this.app.workspace.activeEditor?.editor;
+		return (editor && getLinkAtCursor(editor)) ?? {};
+	}
+
+	/**
+	 * Ask for a link's details, save it to Pinbox and write its note straight
+	 * away, without waiting for the next sync.
+	 */
+	async saveUrlToPinbox(defaults: SaveUrlDefaults = {}) {
+		if (!this.settings.accessToken) {
+			new Notice('请先登录 Pinbox'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		// Loaded while the modal is open
+		const collections = this.api.getCollections();
+		const item = await promptSaveUrl(this.app, defaults, collections);
+		if (!item) {
+			return;
+		}
+
+		let bookmark;
+		try {
+			new Notice('正在保存到 Pinbox...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			bookmark = await this.api.createItem(item);
+		} catch (error) {
+			console.error('[PinboxSyncer] Error saving URL:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`保存到 Pinbox 失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		// A running sync owns the ledger, the next sync writes the note
+		if (this.syncController) {
+			new Notice('已保存到 Pinbox，笔记将在下次同步时创建'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		const controller = new AbortController();
+		this.syncController = controller;
+		try {
+			const file = await this.syncService.syncItem(bookmark, await collections.catch(() => []));
+			new Notice(file ? `已保存到 Pinbox：${file.basename}` : '已保存到 Pinbox，同步设置排除了此书签，未创建笔记'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} catch (error) {
+			console.error('[PinboxSyncer] Error writing the note of a saved URL:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`已保存到 Pinbox，但创建笔记失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} finally {
+			if (this.syncController === controller) {
+				this.syncController = null;
+			}
+			await this.saveSettings();
+		}
+	}
+
+	async moveCurrentItem(file: TFile | null) {
+		if (!file) {
+			new Notice('未选择文件'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		if (!this.settings.accessToken) {
+			new Notice('请先登录 Pinbox'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const id = Number(frontmatter?.id);
+		if (!id) {
+			new Notice('在此文件中未找到 Pinbox 项目 ID'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		try {
+			const collections = await this.api.getCollections();
+			const currentId = Number(frontmatter?.collection_id ?? 0);
+			const collectionId = await chooseCollection(this.app, collections, currentId);
+			if (collectionId === null) {
+				return;
+			}
+			if (this.syncController) {
+				new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				return;
+			}
+
+			const controller = new AbortController();
+			this.syncController = controller;
+			try {
+				await this.syncService.moveItemToCollection(file, id, collectionId, collections);
+			} finally {
+				if (this.syncController === controller) {
+					this.syncController = null;
+				}
+			}
+			const name = collections.find(collection => collection.id === collectionId)?.name ?? '默认收藏夹'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			new Notice(`已移动到「${name}」`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} catch (error) {
+			console.error('[PinboxSyncer] Error moving item:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`移动书签失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} finally {
+			await this.saveSettings();
+		}
+	}
+
+	private async moveItemWithNote(file: TFile, oldPath: string) {
+		try {
+			const collectionPath = await this.syncService.moveItemWithNote(file, oldPath);
+			if (collectionPath !== null) {
+				new Notice(`已在 Pinbox 中把书签移到「${collectionPath || '默认收藏夹'}」`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				await this.saveSettings();
+			}
+		} catch (error) {
+			console.error('[PinboxSyncer] Error moving item with its note:', error);
 			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-			new Notice(`同步失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			new Notice(`在 Pinbox 中移动书签失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+	}
+
+	async openCollectionManager() {
+		const existing = this.app.workspace.getLeavesOfType(COLLECTION_MANAGER_VIEW_TYPE)[0];
+		const leaf = existing ?? this.app.workspace.getRightLeaf(false);
+		if (!leaf) {
+			return;
+		}
+		if (!existing) {
+			await leaf.setViewState({ type: COLLECTION_MANAGER_VIEW_TYPE, active: true });
+		}
+		await this.app.workspace.revealLeaf(leaf);
+	}
+
+	async cleanUpAttachments() {
+		// A running sync may be writing images that no note links to yet
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		const orphans = this.syncService.findOrphanedAttachments();
+		if (orphans.folders.length === 0 && orphans.files.length === 0) {
+			new Notice('没有发现需要清理的附件'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		const items = [
+			...orphans.folders.map(folder => `${folder.path}/`),
+			...orphans.files.map(file => `${file.path}（${formatFileSize(file.stat.size)}）`), // /skip I need use Chinese due to the majority of the target users is Chinese.
+		];
+		const confirmed = await confirmAction(this.app, {
+			title: '清理孤立附件', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			message: `发现 ${orphans.folders.length} 个笔记已不存在的附件文件夹和 ${orphans.files.length} 张未被引用的图片，共 ${formatFileSize(orphans.size)}。确认后将移到回收站。`, // /skip I need use Chinese due to the majority of the target users is Chinese.
+			items,
+			confirmText: '移到回收站', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			warning: true
+		});
+		if (!confirmed) {
+			return;
+		}
+
+		try {
+			const trashed = await this.syncService.trashOrphanedAttachments(orphans);
+			new Notice(`已将 ${trashed} 项移到回收站`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} catch (error) {
+			console.error('[PinboxSyncer] Attachment cleanup error:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`清理失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} finally {
+			await this.saveSettings();
+		}
+	}
+
+	cancelSync() {
+		if (!this.syncController || this.syncController.signal.aborted) {
+			return;
+		}
+		console.debug('[PinboxSyncer] Cancelling sync');
+		this.syncController.abort();
+		this.syncStatusBar.setCancelling();
+	}
+
+	isFullSyncDue(): boolean {
+		if (this.settings.lastSyncTime === 0 || this.settings.lastFullSyncTime === 0) {
+			return true;
+		}
+		if (this.settings.fullSyncInterval <= 0) {
+			return false;
+		}
+		return Date.now() - this.settings.lastFullSyncTime >= this.settings.fullSyncInterval * 60 * 60 * 1000;
+	}
+
+	getIncrementalSince(): number {
+		// Go back one extra day: Pinbox timestamps carry no timezone, and already
+		// synced items in the overlap are cheap to skip thanks to the ledger
+		return Math.max(0, this.settings.lastSyncTime - INCREMENTAL_SYNC_OVERLAP_MS);
+	}
+
+	async relocateNotes() {
+		if (!this.settings.accessToken) {
+			new Notice('请先登录 Pinbox'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		const confirmed = await confirmAction(this.app, {
+			title: '迁移现有笔记', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			message: '将按当前的文件名规则和文件夹布局移动所有已同步的笔记。笔记之间的链接会由 Obsidian 自动更新。', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			confirmText: '开始迁移' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		});
+		if (!confirmed) {
+			return;
+		}
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		new Notice('正在迁移现有笔记...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		const controller = new AbortController();
+		this.syncController = controller;
+		try {
+			const moved = await this.syncService.relocateNotes();
+			new Notice(`迁移完成：移动了 ${moved} 个笔记`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} catch (error) {
+			console.error('[PinboxSyncer] Relocate notes error:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`迁移失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} finally {
+			if (this.syncController === controller) {
+				this.syncController = null;
+			}
+			await this.saveSettings();
 		}
 	}
 
@@ -262,6 +766,24 @@ export default class PinboxSyncerPlugin extends Plugin {
 						}
 					});
 					deleteBtn.addClass('pinbox-delete-btn');
+
+					const refetchBtn = buttonContainer.createEl('button', {
+						attr: {
+							'aria-label': '重新获取网页内容', // /skip I need use Chinese due to the majority of the target users is Chinese.
+							'title': '重新获取网页内容' // /skip I need use Chinese due to the majority of the target users is Chinese.
+						}
+					});
+					refetchBtn.addClass('pinbox-refetch-btn');
+					refetchBtn.setAttribute('contenteditable', 'false');
+					setIcon(refetchBtn, 'refresh-cw');
+					// Left of the delete button
+					buttonContainer.insertBefore(refetchBtn, deleteBtn);
+
+					refetchBtn.onclick = (e: MouseEvent) => {
+						e.preventDefault();
+						e.stopPropagation();
+						void this.refetchCurrentItem(file);
+					};
 					deleteBtn.setAttribute('contenteditable', 'false');
 
 					// Add SVG trash icon using setIcon
@@ -285,6 +807,70 @@ export default class PinboxSyncerPlugin extends Plugin {
 		setTimeout(() => void addButtonWithRetry(), 100);
 	}
 
+	/**
+	 * Fetch the page of a note again and, after showing what changed, replace
+	 * the note's web content with it.
+	 */
+	async refetchCurrentItem(file: TFile | null) {
+		if (!file) {
+			new Notice('未选择文件'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		// Held through the preview too, a sync must not rewrite the note before the content goes in
+		const controller = new AbortController();
+		this.syncController = controller;
+		try {
+			new Notice('正在重新获取网页内容...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			const result = await this.syncService.fetchNoteContent(file, controller.signal);
+			if (!result) {
+				new Notice('此笔记没有可重新获取的网页内容（缺少 ID、URL 或内容区域）'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				return;
+			}
+			if (!result.content) {
+				new Notice(`获取网页内容失败：${result.error ?? '未知错误'}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				return;
+			}
+			if (result.content.trim() === result.current) {
+				new Notice('网页内容没有变化'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				return;
+			}
+
+			const { confirmed, downloadImages } = await previewRefetch(this.app, {
+				title: file.basename,
+				diff: diffLines(result.current, result.content.trim()),
+				offerImageDownload: this.settings.downloadImages
+			});
+			if (!confirmed) {
+				return;
+			}
+
+			if (await this.syncService.replaceNoteContent(file, result.id, result.content, downloadImages, result.metadata)) {
+				new Notice('网页内容已更新'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			} else {
+				new Notice('笔记的内容区域已被移除，未替换'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			}
+		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				new Notice('重新获取已取消'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				return;
+			}
+			console.error('[PinboxSyncer] Error re-fetching content:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`重新获取失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} finally {
+			if (this.syncController === controller) {
+				this.syncController = null;
+			}
+			// The retry queue may have changed
+			await this.saveSettings();
+		}
+	}
+
 	async deleteCurrentItem(file: TFile | null) {
 		console.debug('[PinboxSyncer] deleteCurrentItem called with file:', file);
 
@@ -297,6 +883,10 @@ export default class PinboxSyncerPlugin extends Plugin {
 			new Notice('请先登录 Pinbox'); // /skip I need use Chinese due to the majority of the target users is Chinese.
 			return;
 		}
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
 
 		try {
 			// Check if file still exists
@@ -343,13 +933,23 @@ export default class PinboxSyncerPlugin extends Plugin {
 				});
 
 				const warningList = warningDiv.createEl('ul');
-				warningList.createEl('li', { text: '从 Pinbox 云端删除此书签' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
-				warningList.createEl('li', { text: '删除本地 Obsidian 笔记文件' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				if (this.settings.softDelete) {
+					warningList.createEl('li', { text: `把笔记和图片移到 ${TRASH_FOLDER}` }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+					warningList.createEl('li', { text: `${this.settings.deleteGracePeriod} 小时后从 Pinbox 云端删除此书签` }); // /skip I need use Chinese due to the majority of the target users is Chinese.
 
-				warningDiv.createEl('p', {
-					text: '此操作无法撤销!', // /skip I need use Chinese due to the majority of the target users is Chinese.
-					cls: 'pinbox-warning-final'
-				});
+					warningDiv.createEl('p', {
+						text: '在此之前可以运行命令"Restore deleted Pinbox item"恢复', // /skip I need use Chinese due to the majority of the target users is Chinese.
+						cls: 'pinbox-warning-final'
+					});
+				} else {
+					warningList.createEl('li', { text: '从 Pinbox 云端删除此书签' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+					warningList.createEl('li', { text: '删除本地 Obsidian 笔记文件' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+					warningDiv.createEl('p', {
+						text: '此操作无法撤销!', // /skip I need use Chinese due to the majority of the target users is Chinese.
+						cls: 'pinbox-warning-final'
+					});
+				}
 
 				const buttonContainer = modal.contentEl.createDiv({ cls: 'modal-button-container' });
 
@@ -379,23 +979,45 @@ export default class PinboxSyncerPlugin extends Plugin {
 				return;
 			}
 
-			new Notice('正在从 Pinbox 删除...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			if (this.settings.softDelete) {
+				await this.softDeleteItems([{ file, id: Number(itemId) }]);
+				return;
+			}
 
-			const success = await this.api.deleteItem(itemId);
+			// A sync may have started while the confirmation was open
+			if (this.syncController) {
+				new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				this.addDeleteButtonToView(file);
+				return;
+			}
+			const controller = new AbortController();
+			this.syncController = controller;
+			try {
+				new Notice('正在从 Pinbox 删除...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+				const success = await this.api.deleteItem(itemId);
 
-			if (success) {
-				new Notice('已从 Pinbox 删除'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				if (success) {
+					new Notice('已从 Pinbox 删除'); // /skip I need use Chinese due to the majority of the target users is Chinese.
 
-				// Delete the local file
-				await this.app.fileManager.trashFile(file);
-				new Notice('本地笔记已删除'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+					// Delete the local file
+					await this.app.fileManager.trashFile(file);
+					new Notice('本地笔记已删除'); // /skip I need use Chinese due to the majority of the target users is Chinese.
 
-				// Delete the image folder if downloadImages is enabled
-				if (this.settings.downloadImages) {
-					await this.deleteImageFolder(itemId);
+					// Delete the image folder if downloadImages is enabled
+					if (this.settings.downloadImages) {
+						await this.syncService.deleteImageFolder(itemId);
+					}
+
+					await this.syncService.forgetItem(itemId);
+					await this.saveSettings();
+				} else {
+					new Notice('从 Pinbox 删除失败'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				}
+			} finally {
+				if (this.syncController === controller) {
+					this.syncController = null;
 				}
-			} else {
-				new Notice('从 Pinbox 删除失败'); // /skip I need use Chinese due to the majority of the target users is Chinese.
 			}
 		} catch (error) {
 			console.error('Delete item error:', error);
@@ -404,21 +1026,204 @@ export default class PinboxSyncerPlugin extends Plugin {
 		}
 	}
 
-	async deleteImageFolder(itemId: string) {
+	async deleteMatchingItems() {
+		const query = await promptText(this.app, {
+			title: '删除匹配的书签', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			label: '标题、路径、链接、标签或收藏夹包含', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			confirmText: '查找' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		});
+		if (!query) {
+			return;
+		}
+		const notes = this.syncService.searchPinboxNotes(query);
+		if (notes.length === 0) {
+			new Notice(`没有匹配「${query}」的 Pinbox 笔记`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		await this.deleteItems(notes);
+	}
+
+	/**
+	 * Delete several items from Pinbox after one confirmation, then trash their
+	 * notes and imageFolder/<id> folders.
+	 */
+	async deleteItems(notes: PinboxNote[]) {
+		if (!this.settings.accessToken) {
+			new Notice('请先登录 Pinbox'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		const confirmed = await confirmAction(this.app, {
+			title: `⚠️ 删除 ${notes.length} 个书签`, // /skip I need use Chinese due to the majority of the target users is Chinese.
+			message: this.settings.softDelete
+				? `将把以下笔记和图片移到 .pinbox-trash，${this.settings.deleteGracePeriod} 小时后从 Pinbox 云端删除书签，在此之前可以运行命令"Restore deleted Pinbox item"恢复。` // /skip I need use Chinese due to the majority of the target users is Chinese.
+				: '将从 Pinbox 云端删除以下书签，并把对应的笔记和图片文件夹移到回收站。Pinbox 中的删除无法撤销！', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			items: notes.map(({ file }) => file.path),
+			confirmText: '确认删除', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			warning: true
+		});
+		if (!confirmed) {
+			return;
+		}
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		if (this.settings.softDelete) {
+			await this.softDeleteItems(notes);
+			return;
+		}
+
+		const controller = new AbortController();
+		this.syncController = controller;
 		try {
-			const imageFolderPath = normalizePath(`${this.settings.imageFolder}/${itemId}`);
-			const imageFolder = this.app.vault.getAbstractFileByPath(imageFolderPath);
+			new Notice(`正在从 Pinbox 删除 ${notes.length} 个书签...`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			if (!await this.api.deleteItems(notes.map(({ id }) => id))) {
+				// Earlier batches may have gone through, a full sync handles their notes
+				new Notice('从 Pinbox 删除失败，部分书签可能已删除，完整同步时会处理对应的笔记'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				return;
+			}
 
-			if (imageFolder) {
-				console.debug(`[PinboxSyncer] Deleting image folder: ${imageFolderPath}`);
-				await this.app.fileManager.trashFile(imageFolder);
-				console.debug(`[PinboxSyncer] Image folder deleted: ${imageFolderPath}`);
-			} else {
-				console.debug(`[PinboxSyncer] Image folder not found: ${imageFolderPath}`);
+			let failed = 0;
+			for (const { file, id } of notes) {
+				try {
+					await this.app.fileManager.trashFile(file);
+					await this.syncService.deleteImageFolder(String(id));
+					await this.syncService.forgetItem(id);
+				} catch (error) {
+					console.error(`[PinboxSyncer] Error removing the note of deleted item ${id}:`, error);
+					failed++;
+				}
 			}
+			const failedSummary = failed > 0 ? `，${failed} 个笔记未能移到回收站` : ''; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			new Notice(`已从 Pinbox 删除 ${notes.length} 个书签${failedSummary}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
 		} catch (error) {
-			console.error(`[PinboxSyncer] Error deleting image folder for item ${itemId}:`, error);
-			// Don't throw error, just log it - deletion of images is not critical
+			console.error('[PinboxSyncer] Bulk delete error:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`删除项目失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} finally {
+			if (this.syncController === controller) {
+				this.syncController = null;
+			}
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Move notes to the Pinbox trash and queue their Pinbox delete, see
+	 * SyncService.softDeleteItem. Runs after the caller's confirmation.
+	 */
+	private async softDeleteItems(notes: PinboxNote[]) {
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		const controller = new AbortController();
+		this.syncController = controller;
+		let deleted = 0;
+		try {
+			for (const { file, id } of notes) {
+				try {
+					await this.syncService.softDeleteItem(file, id);
+					deleted++;
+				} catch (error) {
+					console.error(`[PinboxSyncer] Error soft-deleting item ${id}:`, error);
+				}
+			}
+			const failedSummary = deleted < notes.length ? `，${notes.length - deleted} 个失败` : ''; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			new Notice(`已删除 ${deleted} 个书签${failedSummary}，${this.settings.deleteGracePeriod} 小时内可以恢复`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} finally {
+			if (this.syncController === controller) {
+				this.syncController = null;
+			}
+			await this.saveSettings();
+		}
+		if (this.settings.deleteGracePeriod === 0) {
+			await this.runDeletionQueue(false);
+		}
+	}
+
+	async restoreDeletedItem() {
+		if (Object.keys(this.settings.deletionQueue).length === 0) {
+			new Notice('没有可以恢复的书签'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		const id = await chooseDeletedItem(this.app, this.settings.deletionQueue);
+		// The queue may have run while the list was open
+		if (id === null || !this.settings.deletionQueue[id]) {
+			return;
+		}
+		if (this.syncController) {
+			new Notice('同步正在进行中，请稍后再试'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		const controller = new AbortController();
+		this.syncController = controller;
+		try {
+			const file = await this.syncService.restoreDeletedItem(id);
+			new Notice(file ? `已恢复：${file.basename}` : '已恢复'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} catch (error) {
+			console.error('[PinboxSyncer] Error restoring item:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`恢复失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} finally {
+			if (this.syncController === controller) {
+				this.syncController = null;
+			}
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Run the queued Pinbox deletes: the due ones, or after a confirmation all
+	 * of them with `force`.
+	 */
+	async runDeletionQueue(force: boolean) {
+		const queue = this.settings.deletionQueue;
+		if (!this.settings.accessToken || this.syncController || Object.keys(queue).length === 0) {
+			if (force) {
+				new Notice(this.syncController ? '同步正在进行中，请稍后再试' : '没有等待删除的书签'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			}
+			return;
+		}
+		if (force) {
+			const confirmed = await confirmAction(this.app, {
+				title: '立即从 Pinbox 删除', // /skip I need use Chinese due to the majority of the target users is Chinese.
+				message: '以下书签将立即从 Pinbox 云端删除，之后无法再恢复。', // /skip I need use Chinese due to the majority of the target users is Chinese.
+				items: Object.values(queue).map(entry => `${entry.title}（${entry.notePath}）`), // /skip I need use Chinese due to the majority of the target users is Chinese.
+				confirmText: '确认删除', // /skip I need use Chinese due to the majority of the target users is Chinese.
+				warning: true
+			});
+			if (!confirmed || this.syncController) {
+				return;
+			}
+		}
+
+		const controller = new AbortController();
+		this.syncController = controller;
+		try {
+			const deleted = await this.syncService.runDeletionQueue(force);
+			if (deleted > 0) {
+				new Notice(`已从 Pinbox 删除 ${deleted} 个书签`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			}
+		} catch (error) {
+			console.error('[PinboxSyncer] Error running queued deletions:', error);
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`从 Pinbox 删除失败，稍后会重试: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} finally {
+			if (this.syncController === controller) {
+				this.syncController = null;
+			}
+			await this.saveSettings();
 		}
 	}
 
@@ -548,3 +1353,31 @@ LIMIT 10
 		}
 	}
 }
+
+/**
+ * The web link selected in the editor or under the cursor: a Markdown link,
+ * an angle-bracket autolink or a bare URL.
+ */
+function getLinkAtCursor(editor: Editor): SaveUrlDefaults | null {
+	const selection = editor.getSelection().trim();
+	if (isWebUrl(selection)) {
+		return { url: selection };
+	}
+
+	const cursor = editor.getCursor();
+	const line = editor.getLine(cursor.line);
+	const patterns = [/\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/g, /<(https?:\/\/[^\s>]+)>/g, /https?:\/\/[^\s<>()[\]]+/g];
+	for (const pattern of patterns) {
+		let match: RegExpExecArray | null;
+		while ((match = pattern.exec(line)) !== null) {
+			if (cursor.ch < match.index || cursor.ch > match.index + match[0].length) {
+				continue;
+			}
+			if (match.length === 3) {
+				return { url: match[2], title: match[1].trim() || undefined };
+			}
+			return { url: match[1] ?? match[0] };
+		}
+	}
+	return null;
+}
@@ -0,0 +1,261 @@
+import { ExtractedMetadata } from './contentExtractors';
+
+/**
+ * What we know about a fetched article besides its text. Written into the note
+ * frontmatter as author, published, site_name, canonical_url, lang and
+ * word_count.
+ */
+export interface ArticleMetadata extends ExtractedMetadata {
+	canonicalUrl?: string;
+	lang?: string;
+	wordCount?: number;
+}
+
+// ArticleMetadata field -> template variable and default frontmatter key
+export const ARTICLE_METADATA_KEYS = {
+	author: 'author',
+	published: 'published',
+	siteName: 'site_name',
+	canonicalUrl: 'canonical_url',
+	lang: 'lang',
+	wordCount: 'word_count',
+} as const;
+
+type MetadataField = keyof typeof ARTICLE_METADATA_KEYS;
+
+// Kana, CJK ideographs and Hangul
+const CJK_CHARACTERS = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+
+// schema.org types whose author and dates describe the page itself
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'TechArticle', 'Report', 'ScholarlyArticle', 'SocialMediaPosting'];
+
+/**
+ * Read the metadata a page declares about itself: WeChat's page variables,
+ * JSON-LD, OpenGraph and Twitter tags, `<link rel=canonical>` and the document
+ * language. Call before scripts are removed from `doc`. The word count is left
+ * to the caller, it depends on what ends up in the note.
+ */
+export function extractArticleMetadata(doc: Document, url: string): ArticleMetadata {
+	const sources: ArticleMetadata[] = [];
+	if (/(^|\.)mp\.weixin\.qq\.com$/.test(getHostname(url))) {
+		sources.push(extractWechatVariables(doc));
+	}
+	sources.push(extractJsonLd(doc));
+	sources.push({
+		author: getMeta(doc, 'article:author') || getMeta(doc, 'author') || getMeta(doc, 'citation_author') || stripHandle(getMeta(doc, 'twitter:creator')),
+		published: getMeta(doc, 'article:published_time') || getMeta(doc, 'citation_publication_date') || getMeta(doc, 'pubdate')
+			|| doc.querySelector('time[datetime]')?.getAttribute('datetime') || undefined,
+		siteName: getMeta(doc, 'og:site_name') || getMeta(doc, 'application-name') || stripHandle(getMeta(doc, 'twitter:site')),
+		canonicalUrl: resolveUrl(doc.querySelector('link[rel="canonical"]')?.getAttribute('href'), url) || resolveUrl(getMeta(doc, 'og:url'), url),
+		lang: doc.documentElement?.getAttribute('lang') || getMeta(doc, 'og:locale')?.replace('_', '-'),
+	});
+	return mergeMetadata(...sources);
+}
+
+/**
+ * Combine metadata from several sources, earlier ones win. Values are trimmed,
+ * published dates normalized to YYYY-MM-DD and empty values dropped.
+ */
+export function mergeMetadata(...sources: ArticleMetadata[]): ArticleMetadata {
+	const merged: ArticleMetadata = {};
+	for (const source of sources) {
+		for (const field of Object.keys(ARTICLE_METADATA_KEYS) as MetadataField[]) {
+			if (merged[field] !== undefined) {
+				continue;
+			}
+			const value = source[field];
+			if (field === 'wordCount') {
+				if (typeof value === 'number' && value > 0) {
+					merged.wordCount = value;
+				}
+				continue;
+			}
+			if (typeof value !== 'string') {
+				continue;
+			}
+			const cleaned = field === 'published' ? normalizeDate(value) : value.replace(/\s+/g, ' ').trim();
+			if (cleaned) {
+				merged[field] = cleaned;
+			}
+		}
+	}
+	return merged;
+}
+
+/**
+ * Words in a Markdown text: every CJK character counts as one word, like the
+ * word counters in Chinese editors, other text is split on whitespace.
+ */
+export function countWords(markdown: string): number {
+	const text = markdown
+		// Image and link targets aren't words
+		.replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/[#>*_`~=|-]+/g, ' ');
+	const cjk = text.match(CJK_CHARACTERS)?.length ?? 0;
+	const words = text
+		.replace(CJK_CHARACTERS, ' ')
+		.split(/\s+/)
+		.filter(token => /[A-Za-z0-9\u00c0-\u024f\u0400-\u04ff]/.test(token))
+		.length;
+	return cjk + words;
+}
+
+/**
+ * The metadata as template variables, see ARTICLE_METADATA_KEYS.
+ */
+export function getMetadataContext(metadata: ArticleMetadata): Record<string, string | number> {
+	const context: Record<string, string | number> = {};
+	for (const field of Object.keys(ARTICLE_METADATA_KEYS) as MetadataField[]) {
+		context[ARTICLE_METADATA_KEYS[field]] = metadata[field] ?? '';
+	}
+	return context;
+}
+
+/**
+ * Metadata stored in a note's frontmatter by an earlier sync, so updates that
+ * don't fetch the page again keep it.
+ */
+export function readArticleMetadata(frontmatter: Record<string, unknown> | undefined): ArticleMetadata {
+	const metadata: ArticleMetadata = {};
+	if (!frontmatter) {
+		return metadata;
+	}
+	for (const field of Object.keys(ARTICLE_METADATA_KEYS) as MetadataField[]) {
+		const value = frontmatter[ARTICLE_METADATA_KEYS[field]];
+		if (field === 'wordCount') {
+			if (typeof value === 'number') {
+				metadata.wordCount = value;
+			}
+		} else if (typeof value === 'string' || typeof value === 'number') {
+			metadata[field] = String(value);
+		}
+	}
+	return metadata;
+}
+
+// WeChat keeps the account name and publish time in inline script variables
+function extractWechatVariables(doc: Document): ArticleMetadata {
+	let scripts = '';
+	doc.querySelectorAll('script').forEach(script => {
+		scripts += `${script.textContent ?? ''}\n`;
+	});
+
+	const nickname = /\bnick_?name\s*[=:]\s*(?:htmlDecode\(|JsDecode\()?\s*["']([^"']+)["']/.exec(scripts)?.[1];
+	const publishTime = /\bpublish_time\s*[=:]\s*["']([^"']+)["']/.exec(scripts)?.[1];
+	// Unix time in seconds
+	const createTime = /\b(?:ct|create_time)\s*[=:]\s*(?:JsDecode\()?\s*["'](\d{9,})["']/.exec(scripts)?.[1];
+	return {
+		siteName: nickname ? decodeEntities(nickname) : undefined,
+		published: publishTime || (createTime ? formatLocalDate(Number(createTime) * 1000) : undefined),
+	};
+}
+
+function extractJsonLd(doc: Document): ArticleMetadata {
+	const objects: Record<string, unknown>[] = [];
+	doc.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+		try {
+			collectJsonLdObjects(JSON.parse(script.textContent ?? ''), objects);
+		} catch {
+			// Broken JSON-LD is common, the other sources still apply
+		}
+	});
+
+	// A generic WebPage object only if the page doesn't describe an article
+	const article = findJsonLdObject(objects, ARTICLE_TYPES) ?? findJsonLdObject(objects, ['WebPage']);
+	if (!article) {
+		return {};
+	}
+
+	return {
+		author: getJsonLdNames(article.author),
+		published: typeof article.datePublished === 'string' ? article.datePublished : undefined,
+		siteName: getJsonLdNames(article.publisher),
+		canonicalUrl: typeof article.url === 'string' ? article.url : undefined,
+		lang: typeof article.inLanguage === 'string' ? article.inLanguage : undefined,
+	};
+}
+
+// Flatten arrays and @graph into a list of objects
+function collectJsonLdObjects(value: unknown, objects: Record<string, unknown>[]) {
+	if (Array.isArray(value)) {
+		value.forEach(item => collectJsonLdObjects(item, objects));
+	} else if (value && typeof value === 'object') {
+		const object = value as Record<string, unknown>;
+		objects.push(object);
+		if (object['@graph']) {
+			collectJsonLdObjects(object['@graph'], objects);
+		}
+	}
+}
+
+function findJsonLdObject(objects: Record<string, unknown>[], types: string[]): Record<string, unknown> | undefined {
+	return objects.find(object => ([] as unknown[]).concat(object['@type'])
+		.some(type => typeof type === 'string' && types.includes(type)));
+}
+
+// A person or organization as a string, an object with a name, or a list of those
+function getJsonLdNames(value: unknown): string | undefined {
+	const names = ([] as unknown[]).concat(value)
+		.map(item => typeof item === 'string' ? item : (item as Record<string, unknown> | null)?.name)
+		.filter((name): name is string => typeof name === 'string' && name.trim().length > 0);
+	return names.length > 0 ? names.join(', ') : undefined;
+}
+
+function getMeta(doc: Document, name: string): string | undefined {
+	return doc.querySelector(`meta[name="${name}"], meta[property="${name}"]`)?.getAttribute('content')?.trim() || undefined;
+}
+
+// Twitter handles come as "@name"
+function stripHandle(handle: string | undefined): string | undefined {
+	return handle?.replace(/^@/, '') || undefined;
+}
+
+function resolveUrl(href: string | null | undefined, base: string): string | undefined {
+	if (!href) {
+		return undefined;
+	}
+	try {
+		return new URL(href, base).href;
+	} catch {
+		return undefined;
+	}
+}
+
+function getHostname(url: string): string {
+	try {
+		return new URL(url).hostname;
+	} catch {
+		return '';
+	}
+}
+
+// YYYY-MM-DD, keeping the publisher's date when the value starts with one
+function normalizeDate(value: string): string {
+	const trimmed = value.trim();
+	const dateMatch = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/.exec(trimmed);
+	if (dateMatch) {
+		return `${dateMatch[1]}-${pad(Number(dateMatch[2]))}-${pad(Number(dateMatch[3]))}`;
+	}
+	if (/^\d{9,}$/.test(trimmed)) {
+		// Unix time, in seconds or milliseconds
+		const time = Number(trimmed);
+		return formatLocalDate(trimmed.length > 11 ? time : time * 1000);
+	}
+	const time = Date.parse(trimmed);
+	return isNaN(time) ? '' : formatLocalDate(time);
+}
+
+function formatLocalDate(time: number): string {
+	const date = new Date(time);
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function pad(value: number): string {
+	return value < 10 ? `0${value}` : String(value);
+}
+
+// WeChat escapes the nickname as HTML, e.g. "A &amp; B"
+function decodeEntities(text: string): string {
+	return new DOMParser().parseFromString(text, 'text/html').documentElement.textContent ?? text;
+}
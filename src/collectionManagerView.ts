@@ -0,0 +1,166 @@
+import { ItemView, Notice, WorkspaceLeaf, setIcon } from 'obsidian';
+import PinboxSyncerPlugin from '../main';
+import { listCollectionPaths } from './collections';
+import { confirmAction } from './confirmModal';
+import { PinboxCollection } from './pinboxApi';
+import { promptText } from './textPromptModal';
+
+export const COLLECTION_MANAGER_VIEW_TYPE = 'pinbox-collection-manager';
+
+/**
+ * Sidebar view listing the Pinbox collections as a tree, with buttons to
+ * create, rename and delete them. Notes follow renames on the next sync.
+ */
+export class CollectionManagerView extends ItemView {
+	private plugin: PinboxSyncerPlugin;
+	private collections: PinboxCollection[] = [];
+
+	constructor(leaf: WorkspaceLeaf, plugin: PinboxSyncerPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return COLLECTION_MANAGER_VIEW_TYPE;
+	}
+
+	getDisplayText(): string {
+		return 'Pinbox 收藏夹'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+	}
+
+	getIcon(): string {
+		return 'folder-tree';
+	}
+
+	async onOpen() {
+		await this.refresh();
+	}
+
+	async refresh() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('pinbox-collection-manager');
+
+		if (!this.plugin.settings.accessToken) {
+			container.createEl('p', { text: '请先登录 Pinbox', cls: 'pinbox-collection-manager-message' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		container.createEl('p', { text: '加载中...', cls: 'pinbox-collection-manager-message' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		try {
+			this.collections = await this.plugin.api.getCollections();
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			container.empty();
+			container.createEl('p', { text: `加载收藏夹失败: ${errorMessage}`, cls: 'pinbox-collection-manager-message' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			this.renderToolbar(container);
+			return;
+		}
+
+		container.empty();
+		this.renderToolbar(container);
+		const list = container.createDiv({ cls: 'pinbox-collection-tree' });
+		if (this.collections.length === 0) {
+			list.createEl('p', { text: '还没有收藏夹', cls: 'pinbox-collection-manager-message' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+		for (const choice of listCollectionPaths(this.collections)) {
+			const collection = this.collections.find(candidate => candidate.id === choice.id);
+			if (collection) {
+				this.renderRow(list, collection, choice.depth);
+			}
+		}
+	}
+
+	private renderToolbar(container: HTMLElement) {
+		const toolbar = container.createDiv({ cls: 'pinbox-collection-toolbar' });
+		this.addButton(toolbar, 'folder-plus', '新建收藏夹', () => this.createCollection(null)); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addButton(toolbar, 'refresh-cw', '刷新', () => this.refresh()); // /skip I need use Chinese due to the majority of the target users is Chinese.
+	}
+
+	private renderRow(list: HTMLElement, collection: PinboxCollection, depth: number) {
+		const row = list.createDiv({ cls: 'pinbox-collection-row' });
+		row.style.setProperty('--pinbox-collection-depth', String(depth));
+		row.createSpan({ text: collection.name, cls: 'pinbox-collection-name' });
+		row.createSpan({ text: String(collection.items_count ?? 0), cls: 'pinbox-collection-count' });
+
+		const actions = row.createDiv({ cls: 'pinbox-collection-actions' });
+		this.addButton(actions, 'folder-plus', '新建子收藏夹', () => this.createCollection(collection)); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addButton(actions, 'pencil', '重命名', () => this.renameCollection(collection)); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addButton(actions, 'trash-2', '删除', () => this.deleteCollection(collection)); // /skip I need use Chinese due to the majority of the target users is Chinese.
+	}
+
+	private addButton(container: HTMLElement, icon: string, label: string, onClick: () => Promise<void>) {
+		const button = container.createEl('button', { cls: 'clickable-icon', attr: { 'aria-label': label } });
+		setIcon(button, icon);
+		button.addEventListener('click', () => void onClick());
+	}
+
+	private async createCollection(parent: PinboxCollection | null) {
+		const name = await promptText(this.app, {
+			title: parent ? `在「${parent.name}」中新建收藏夹` : '新建收藏夹', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			label: '名称', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			confirmText: '创建' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		});
+		if (!name) {
+			return;
+		}
+
+		try {
+			await this.plugin.api.createCollection(name, parent?.id ?? null);
+			new Notice(`已创建收藏夹「${name}」`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`创建收藏夹失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+		await this.refresh();
+	}
+
+	private async renameCollection(collection: PinboxCollection) {
+		const name = await promptText(this.app, {
+			title: '重命名收藏夹', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			label: '名称', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			value: collection.name,
+			confirmText: '重命名' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		});
+		if (!name || name === collection.name) {
+			return;
+		}
+
+		try {
+			await this.plugin.api.renameCollection(collection.id, name);
+			new Notice(`已重命名为「${name}」，相关笔记将在下次同步时更新`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`重命名收藏夹失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+		await this.refresh();
+	}
+
+	// Only empty collections, items and subcollections have to be moved out first
+	private async deleteCollection(collection: PinboxCollection) {
+		const hasChildren = this.collections.some(candidate => candidate.parent_id === collection.id);
+		if ((collection.items_count ?? 0) > 0 || hasChildren) {
+			new Notice('只能删除空的收藏夹，请先移走其中的书签和子收藏夹'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+
+		const confirmed = await confirmAction(this.app, {
+			title: '删除收藏夹', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			message: `确定要从 Pinbox 删除收藏夹「${collection.name}」吗？`, // /skip I need use Chinese due to the majority of the target users is Chinese.
+			confirmText: '删除', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			warning: true
+		});
+		if (!confirmed) {
+			return;
+		}
+
+		try {
+			await this.plugin.api.deleteCollection(collection.id);
+			new Notice(`已删除收藏夹「${collection.name}」`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		} catch (error) {
+			const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+			new Notice(`删除收藏夹失败: ${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+		await this.refresh();
+	}
+}
@@ -0,0 +1,48 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { CollectionChoice, listCollectionPaths } from './collections';
+import { PinboxCollection } from './pinboxApi';
+
+class CollectionSuggestModal extends FuzzySuggestModal<CollectionChoice> {
+	private choices: CollectionChoice[];
+	private resolve: (collectionId: number | null) => void;
+
+	constructor(app: App, choices: CollectionChoice[], resolve: (collectionId: number | null) => void) {
+		super(app);
+		this.choices = choices;
+		this.resolve = resolve;
+		this.setPlaceholder('移动到收藏夹...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+	}
+
+	getItems(): CollectionChoice[] {
+		return this.choices;
+	}
+
+	getItemText(choice: CollectionChoice): string {
+		return choice.path;
+	}
+
+	onChooseItem(choice: CollectionChoice) {
+		this.resolve(choice.id);
+	}
+
+	onClose() {
+		super.onClose();
+		// Obsidian closes the modal before it calls onChooseItem
+		window.setTimeout(() => this.resolve(null));
+	}
+}
+
+/**
+ * Pick a collection by fuzzy search over the collection paths. Resolves to
+ * the collection id, 0 for the default collection, or null when dismissed.
+ * `currentId` is left out of the list.
+ */
+export function chooseCollection(app: App, collections: PinboxCollection[], currentId?: number): Promise<number | null> {
+	const choices: CollectionChoice[] = [
+		{ id: 0, path: '默认收藏夹', depth: 0 }, // /skip I need use Chinese due to the majority of the target users is Chinese.
+		...listCollectionPaths(collections),
+	].filter(choice => choice.id !== currentId);
+	return new Promise(resolve => {
+		new CollectionSuggestModal(app, choices, resolve).open();
+	});
+}
@@ -0,0 +1,39 @@
+import { PinboxCollection } from './pinboxApi';
+
+export interface CollectionChoice {
+	id: number; // 0 for the default collection
+	path: string; // e.g. "阅读 / AI"
+	depth: number;
+}
+
+/**
+ * Every collection with its full path, parents before their children and
+ * siblings sorted by name, for pickers and the collection manager.
+ */
+export function listCollectionPaths(collections: PinboxCollection[]): CollectionChoice[] {
+	const byId = new Map(collections.map(collection => [collection.id, collection]));
+	const choices = collections.map(collection => {
+		const names: string[] = [];
+		const visited = new Set<number>();
+		let current: PinboxCollection | undefined = collection;
+		while (current && !visited.has(current.id)) {
+			visited.add(current.id);
+			names.unshift(current.name);
+			current = current.parent_id !== null ? byId.get(current.parent_id) : undefined;
+		}
+		return { id: collection.id, path: names.join(' / '), depth: names.length - 1, names };
+	});
+	choices.sort((a, b) => compareNames(a.names, b.names));
+	return choices.map(({ id, path, depth }) => ({ id, path, depth }));
+}
+
+// Path by path, so a parent comes right before its children
+function compareNames(a: string[], b: string[]): number {
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		const order = a[i].localeCompare(b[i]);
+		if (order !== 0) {
+			return order;
+		}
+	}
+	return a.length - b.length;
+}
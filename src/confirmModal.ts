@@ -0,0 +1,66 @@
+import { App, Modal } from 'obsidian';
+
+export interface ConfirmOptions {
+	title: string;
+	message: string;
+	// Listed below the message, e.g. the files an action will touch
+	items?: string[];
+	confirmText: string;
+	// Style the confirm button as a destructive action
+	warning?: boolean;
+}
+
+class ConfirmModal extends Modal {
+	private options: ConfirmOptions;
+	private resolve: (confirmed: boolean) => void;
+	private confirmed = false;
+
+	constructor(app: App, options: ConfirmOptions, resolve: (confirmed: boolean) => void) {
+		super(app);
+		this.options = options;
+		this.resolve = resolve;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(this.options.title);
+
+		const contentDiv = contentEl.createDiv({ cls: 'pinbox-confirm-modal' });
+		contentDiv.createEl('p', { text: this.options.message });
+
+		if (this.options.items && this.options.items.length > 0) {
+			const list = contentDiv.createEl('ul', { cls: 'pinbox-confirm-list' });
+			this.options.items.forEach(item => list.createEl('li', { text: item }));
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+		buttonContainer.createEl('button', {
+			text: '取消' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}).addEventListener('click', () => this.close());
+
+		const confirmButton = buttonContainer.createEl('button', {
+			text: this.options.confirmText,
+			cls: this.options.warning ? 'mod-warning' : 'mod-cta'
+		});
+		confirmButton.addEventListener('click', () => {
+			this.confirmed = true;
+			this.close();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.confirmed);
+	}
+}
+
+/**
+ * Ask the user to confirm an action. Resolves to false when the modal is
+ * cancelled or closed.
+ */
+export function confirmAction(app: App, options: ConfirmOptions): Promise<boolean> {
+	return new Promise(resolve => {
+		new ConfirmModal(app, options, resolve).open();
+	});
+}
@@ -0,0 +1,82 @@
+import { App, Modal } from 'obsidian';
+import { ConflictResolution, EditConflict, EditableField, EditableValues } from './twoWaySync';
+
+const FIELD_LABELS: Record<EditableField, string> = {
+	title: '标题', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	tags: '标签', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	note: '笔记', // /skip I need use Chinese due to the majority of the target users is Chinese.
+};
+
+class ConflictModal extends Modal {
+	private conflict: EditConflict;
+	private resolve: (resolution: ConflictResolution) => void;
+	private resolution: ConflictResolution = null;
+
+	constructor(app: App, conflict: EditConflict, resolve: (resolution: ConflictResolution) => void) {
+		super(app);
+		this.conflict = conflict;
+		this.resolve = resolve;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(`修改冲突：${this.conflict.title}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.modalEl.addClass('pinbox-conflict-modal');
+
+		contentEl.createEl('p', {
+			text: '上次同步后，以下内容在笔记和 Pinbox 中都被修改了。跳过则两边都保持不变，下次同步时再询问。', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			cls: 'pinbox-conflict-summary'
+		});
+
+		for (const field of this.conflict.fields) {
+			const fieldDiv = contentEl.createDiv({ cls: 'pinbox-conflict-field' });
+			fieldDiv.createEl('h4', { text: FIELD_LABELS[field] });
+			this.renderValue(fieldDiv, '笔记中', this.conflict.local, field); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			this.renderValue(fieldDiv, 'Pinbox 中', this.conflict.remote, field); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+		buttonContainer.createEl('button', {
+			text: '跳过' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}).addEventListener('click', () => this.close());
+
+		buttonContainer.createEl('button', {
+			text: '使用 Pinbox 的版本' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}).addEventListener('click', () => {
+			this.resolution = 'remote';
+			this.close();
+		});
+
+		buttonContainer.createEl('button', {
+			text: '保留笔记中的修改', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			cls: 'mod-cta'
+		}).addEventListener('click', () => {
+			this.resolution = 'local';
+			this.close();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.resolution);
+	}
+
+	private renderValue(container: HTMLElement, label: string, values: EditableValues, field: EditableField) {
+		const value = values[field];
+		const text = Array.isArray(value) ? value.join(', ') : value;
+		const row = container.createDiv({ cls: 'pinbox-conflict-value' });
+		row.createSpan({ text: label, cls: 'pinbox-conflict-label' });
+		row.createDiv({ text: text || '（空）', cls: 'pinbox-conflict-text' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+	}
+}
+
+/**
+ * Ask which side of an edit conflict to keep. Resolves to null when the
+ * conflict is skipped or the modal is closed.
+ */
+export function resolveEditConflict(app: App, conflict: EditConflict): Promise<ConflictResolution> {
+	return new Promise(resolve => {
+		new ConflictModal(app, conflict, resolve).open();
+	});
+}
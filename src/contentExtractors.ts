@@ -0,0 +1,329 @@
+/**
+ * Finding the article in a fetched page. Sites we know get an extractor with the
+ * element that holds the article, the page chrome to drop inside it and where
+ * their metadata lives. Every other page goes through a readability-style
+ * scoring of content blocks.
+ *
+ * Everything here works on a parsed Document and nothing else, so extractors can
+ * be checked against saved HTML pages.
+ */
+
+export interface ExtractedMetadata {
+	author?: string;
+	published?: string;
+	siteName?: string;
+}
+
+export interface SiteExtractor {
+	name: string;
+	// Matched against the hostname of the page
+	hosts: RegExp;
+	// Tried in order, the first one found is the article
+	contentSelectors: string[];
+	// Removed from the article before it is converted
+	removeSelectors?: string[];
+	metadata?: (doc: Document, url: URL) => ExtractedMetadata;
+}
+
+export interface ExtractionResult {
+	// Name of the site extractor, or 'generic'
+	extractor: string;
+	root: Element;
+	metadata: ExtractedMetadata;
+}
+
+// Dropped from every page before the generic scoring runs
+const GENERIC_REMOVE_SELECTORS = [
+	'nav', 'header', 'footer', 'aside', 'form',
+	'[role="navigation"]', '[role="banner"]', '[role="complementary"]', '[role="contentinfo"]', '[role="dialog"]',
+];
+
+const POSITIVE_NAMES = /article|body|content|entry|main|page|post|text|blog|story|markdown/i;
+const NEGATIVE_NAMES = /\bads?\b|advert|banner|breadcrumb|comment|consent|cookie|footer|header|menu|modal|\bnav|popup|promo|related|share|sidebar|social|sponsor|subscribe|widget/i;
+// Scored block elements, their text counts for the parent and grandparent
+const SCORED_TAGS = 'p, pre, td, blockquote, li, h2, h3';
+// Below this the generic candidate is probably not the article
+const MIN_ARTICLE_LENGTH = 200;
+
+export const SITE_EXTRACTORS: SiteExtractor[] = [
+	{
+		name: 'wechat',
+		hosts: /(^|\.)mp\.weixin\.qq\.com$/,
+		contentSelectors: ['#js_content', '.rich_media_content'],
+		removeSelectors: ['.qr_code_pc', '#js_pc_qr_code', '.reward_area', '#js_tags', '.original_area_primary'],
+		metadata: (doc) => ({
+			author: getText(doc, '#js_author_name') || getMeta(doc, 'author'),
+			siteName: getText(doc, '#js_name') || getMeta(doc, 'og:site_name'),
+		}),
+	},
+	{
+		name: 'zhihu',
+		hosts: /(^|\.)zhihu\.com$/,
+		contentSelectors: ['.Post-RichText', '.QuestionAnswer-content .RichText', '.RichContent-inner', '.RichText'],
+		removeSelectors: ['.ContentItem-actions', '.Reward', '.Comments-container', '.RichText-LinkCardContainer'],
+		metadata: (doc) => ({
+			author: getMeta(doc, 'author') || getText(doc, '.AuthorInfo-name'),
+			published: getAttribute(doc, 'meta[itemprop="datePublished"]', 'content'),
+			siteName: '知乎', // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}),
+	},
+	{
+		name: 'juejin',
+		hosts: /(^|\.)juejin\.(cn|im)$/,
+		contentSelectors: ['.article-content', '.markdown-body'],
+		removeSelectors: ['.copy-code-btn', 'style'],
+		metadata: (doc) => ({
+			author: getText(doc, '.author-name .name') || getMeta(doc, 'author'),
+			published: getAttribute(doc, 'time', 'datetime') || getAttribute(doc, 'meta[itemprop="datePublished"]', 'content'),
+			siteName: '稀土掘金', // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}),
+	},
+	{
+		name: 'sspai',
+		hosts: /(^|\.)sspai\.com$/,
+		contentSelectors: ['.article-body .content', '.article-body', '.wangEditor-txt'],
+		removeSelectors: ['.article-side', '.comment', '.support-author'],
+		metadata: (doc) => ({
+			author: getText(doc, '.article-author .nickname') || getMeta(doc, 'author'),
+			siteName: '少数派', // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}),
+	},
+	{
+		name: 'medium',
+		hosts: /(^|\.)medium\.com$/,
+		contentSelectors: ['article section', 'article'],
+		removeSelectors: ['button', '[data-testid="authorPhoto"]', '[data-testid="storyPublishDate"]', '.speechify-ignore'],
+		metadata: (doc) => ({
+			author: getMeta(doc, 'author'),
+			published: getMeta(doc, 'article:published_time'),
+			siteName: 'Medium',
+		}),
+	},
+	{
+		name: 'github',
+		hosts: /(^|\.)github\.com$/,
+		contentSelectors: ['#readme article.markdown-body', 'article.markdown-body', '.markdown-body'],
+		removeSelectors: ['.anchor', 'svg'],
+		metadata: (_doc, url) => ({
+			// Repository owner, /owner/repo
+			author: url.pathname.split('/')[1] || undefined,
+			siteName: 'GitHub',
+		}),
+	},
+	{
+		name: 'csdn',
+		hosts: /(^|\.)csdn\.net$/,
+		contentSelectors: ['#content_views', '#article_content'],
+		removeSelectors: ['.hide-preCode-box', '.pre-numbering', '.signin'],
+		metadata: (doc) => ({
+			author: getText(doc, '.follow-nickName') || getMeta(doc, 'author'),
+			published: getText(doc, '.time'),
+			siteName: 'CSDN',
+		}),
+	},
+	{
+		name: 'cnblogs',
+		hosts: /(^|\.)cnblogs\.com$/,
+		contentSelectors: ['#cnblogs_post_body'],
+		removeSelectors: ['#blog_post_info_block', '.clear'],
+		metadata: (doc) => ({
+			author: getMeta(doc, 'author'),
+			published: getText(doc, '#post-date'),
+			siteName: '博客园', // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}),
+	},
+	{
+		name: 'jianshu',
+		hosts: /(^|\.)jianshu\.com$/,
+		contentSelectors: ['article'],
+		removeSelectors: ['.image-caption:empty'],
+		metadata: (doc) => ({
+			author: getMeta(doc, 'author'),
+			siteName: '简书', // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}),
+	},
+	{
+		name: 'substack',
+		hosts: /(^|\.)substack\.com$/,
+		contentSelectors: ['.available-content .body', '.available-content', '.body.markup'],
+		removeSelectors: ['.subscription-widget-wrap', '.button-wrapper', '.footnote-anchor'],
+		metadata: (doc) => ({
+			author: getMeta(doc, 'author'),
+			published: getMeta(doc, 'article:published_time'),
+			siteName: getMeta(doc, 'og:site_name') || 'Substack',
+		}),
+	},
+];
+
+export function findSiteExtractor(url: string, extractors: SiteExtractor[] = SITE_EXTRACTORS): SiteExtractor | null {
+	const parsed = parseUrl(url);
+	if (!parsed) {
+		return null;
+	}
+	return extractors.find(extractor => extractor.hosts.test(parsed.hostname)) ?? null;
+}
+
+/**
+ * Find the article in `doc`, removing page chrome from it. Modifies `doc`.
+ * Returns null when the page has no body.
+ */
+export function extractContent(doc: Document, url: string, extractors: SiteExtractor[] = SITE_EXTRACTORS): ExtractionResult | null {
+	if (!doc.body) {
+		return null;
+	}
+
+	const extractor = findSiteExtractor(url, extractors);
+	if (extractor) {
+		const root = findFirst(doc, extractor.contentSelectors);
+		if (root) {
+			removeAll(root, extractor.removeSelectors ?? []);
+			const parsed = parseUrl(url);
+			return {
+				extractor: extractor.name,
+				root,
+				metadata: extractor.metadata && parsed ? cleanMetadata(extractor.metadata(doc, parsed)) : {},
+			};
+		}
+		// The site changed its markup, the generic scoring still gets something
+		console.debug(`[ContentExtractors] No content root for the ${extractor.name} extractor, falling back to the generic one`);
+	}
+
+	return {
+		extractor: 'generic',
+		root: findGenericRoot(doc),
+		metadata: {},
+	};
+}
+
+/**
+ * Readability-style guess at the element holding the article: block elements
+ * with a lot of text add to their parent's and grandparent's score, class and
+ * id names like "content" or "sidebar" push it up or down, and link-heavy
+ * blocks are penalized.
+ */
+export function findGenericRoot(doc: Document): Element {
+	removeAll(doc.body, GENERIC_REMOVE_SELECTORS);
+	const bodyLength = (doc.body.textContent ?? '').length;
+	doc.body.querySelectorAll('[class], [id]').forEach(element => {
+		// Keep anything that also looks like content, e.g. "post-header", and
+		// wrappers holding most of the page, whatever they are called
+		const names = `${element.getAttribute('class') ?? ''} ${element.id}`;
+		if (NEGATIVE_NAMES.test(names) && !POSITIVE_NAMES.test(names)
+			&& (element.textContent ?? '').length < bodyLength / 2) {
+			element.remove();
+		}
+	});
+
+	const scores = new Map<Element, number>();
+	const addScore = (element: Element | null, score: number) => {
+		if (!element || element === doc.documentElement) {
+			return;
+		}
+		if (!scores.has(element)) {
+			scores.set(element, getNameWeight(element));
+		}
+		scores.set(element, (scores.get(element) ?? 0) + score);
+	};
+
+	doc.body.querySelectorAll(SCORED_TAGS).forEach(block => {
+		const text = (block.textContent ?? '').trim();
+		if (text.length < 25) {
+			return;
+		}
+		// Commas in both scripts, long paragraphs count for more
+		const score = 1 + (text.match(/[,，、。]/g)?.length ?? 0) + Math.min(3, Math.floor(text.length / 100));
+		addScore(block.parentElement, score);
+		addScore(block.parentElement?.parentElement ?? null, score / 2);
+	});
+
+	let best: Element | null = null;
+	let bestScore = 0;
+	for (const [element, score] of scores) {
+		const adjusted = score * (1 - getLinkDensity(element));
+		if (adjusted > bestScore) {
+			best = element;
+			bestScore = adjusted;
+		}
+	}
+
+	if (!best || (best.textContent ?? '').trim().length < MIN_ARTICLE_LENGTH) {
+		return doc.body;
+	}
+	return best;
+}
+
+function getNameWeight(element: Element): number {
+	const names = `${element.getAttribute('class') ?? ''} ${element.id}`;
+	let weight = 0;
+	if (POSITIVE_NAMES.test(names)) {
+		weight += 25;
+	}
+	if (NEGATIVE_NAMES.test(names)) {
+		weight -= 25;
+	}
+	if (element.tagName === 'ARTICLE' || element.tagName === 'MAIN') {
+		weight += 10;
+	}
+	return weight;
+}
+
+// Share of the element's text that is link text
+function getLinkDensity(element: Element): number {
+	const length = (element.textContent ?? '').length;
+	if (length === 0) {
+		return 0;
+	}
+	let linkLength = 0;
+	element.querySelectorAll('a').forEach(link => {
+		linkLength += (link.textContent ?? '').length;
+	});
+	return Math.min(1, linkLength / length);
+}
+
+function findFirst(doc: Document, selectors: string[]): Element | null {
+	for (const selector of selectors) {
+		const element = doc.querySelector(selector);
+		if (element) {
+			return element;
+		}
+	}
+	return null;
+}
+
+function removeAll(root: Element, selectors: string[]) {
+	for (const selector of selectors) {
+		root.querySelectorAll(selector).forEach(element => element.remove());
+	}
+}
+
+function getText(doc: Document, selector: string): string | undefined {
+	return doc.querySelector(selector)?.textContent?.trim() || undefined;
+}
+
+function getAttribute(doc: Document, selector: string, name: string): string | undefined {
+	return doc.querySelector(selector)?.getAttribute(name)?.trim() || undefined;
+}
+
+// <meta name="..."> or <meta property="...">
+function getMeta(doc: Document, name: string): string | undefined {
+	return getAttribute(doc, `meta[name="${name}"], meta[property="${name}"]`, 'content');
+}
+
+function cleanMetadata(metadata: ExtractedMetadata): ExtractedMetadata {
+	const cleaned: ExtractedMetadata = {};
+	for (const key of ['author', 'published', 'siteName'] as const) {
+		const value = metadata[key]?.replace(/\s+/g, ' ').trim();
+		if (value) {
+			cleaned[key] = value;
+		}
+	}
+	return cleaned;
+}
+
+function parseUrl(url: string): URL | null {
+	try {
+		return new URL(url);
+	} catch {
+		return null;
+	}
+}
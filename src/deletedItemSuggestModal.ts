@@ -0,0 +1,64 @@
+import { App, FuzzyMatch, FuzzySuggestModal } from 'obsidian';
+import { DeletionEntry } from './deletionQueue';
+
+interface DeletedItem {
+	id: number;
+	entry: DeletionEntry;
+}
+
+class DeletedItemSuggestModal extends FuzzySuggestModal<DeletedItem> {
+	private items: DeletedItem[];
+	private resolve: (id: number | null) => void;
+
+	constructor(app: App, items: DeletedItem[], resolve: (id: number | null) => void) {
+		super(app);
+		this.items = items;
+		this.resolve = resolve;
+		this.setPlaceholder('恢复已删除的书签...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+	}
+
+	getItems(): DeletedItem[] {
+		return this.items;
+	}
+
+	getItemText(item: DeletedItem): string {
+		return `${item.entry.title} ${item.entry.notePath}`;
+	}
+
+	renderSuggestion(match: FuzzyMatch<DeletedItem>, el: HTMLElement) {
+		const { entry } = match.item;
+		el.createDiv({ text: entry.title });
+		el.createEl('small', {
+			text: `${entry.notePath} · 删除于 ${new Date(entry.deletedAt).toLocaleString('zh-CN')}，${formatDeleteAfter(entry.deleteAfter)}`, // /skip I need use Chinese due to the majority of the target users is Chinese.
+			cls: 'pinbox-deleted-item-details'
+		});
+	}
+
+	onChooseItem(item: DeletedItem) {
+		this.resolve(item.id);
+	}
+
+	onClose() {
+		super.onClose();
+		// Obsidian closes the modal before it calls onChooseItem
+		window.setTimeout(() => this.resolve(null));
+	}
+}
+
+function formatDeleteAfter(deleteAfter: number): string {
+	const hours = Math.ceil((deleteAfter - Date.now()) / (60 * 60 * 1000));
+	return hours > 0 ? `${hours} 小时后从 Pinbox 删除` : '等待从 Pinbox 删除'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+}
+
+/**
+ * Pick a soft-deleted item to restore, newest first. Resolves to its id, or
+ * null when dismissed.
+ */
+export function chooseDeletedItem(app: App, queue: Record<string, DeletionEntry>): Promise<number | null> {
+	const items = Object.keys(queue)
+		.map(id => ({ id: Number(id), entry: queue[id] }))
+		.sort((a, b) => b.entry.deletedAt - a.entry.deletedAt);
+	return new Promise(resolve => {
+		new DeletedItemSuggestModal(app, items, resolve).open();
+	});
+}
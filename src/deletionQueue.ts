@@ -0,0 +1,44 @@
+import { SyncLedgerEntry } from './syncLedger';
+
+/**
+ * Soft-deleted items, keyed by item id in settings.deletionQueue. The note and
+ * its attachments wait in TRASH_FOLDER/<id>/ next to a tombstone; the item is
+ * deleted in Pinbox once `deleteAfter` has passed, until then the restore
+ * command puts everything back.
+ */
+export interface DeletionEntry {
+	title: string;
+	notePath: string; // where the note was
+	deletedAt: number;
+	deleteAfter: number; // the Pinbox delete runs from then on
+}
+
+// TRASH_FOLDER/<id>/item.json, everything needed to undo the deletion. The
+// item itself stays in Pinbox until the delete runs, so only the local side
+// is kept: the note and files, and the item's ledger entry.
+export interface Tombstone {
+	id: number;
+	title: string;
+	ledgerEntry?: SyncLedgerEntry;
+	deletedAt: number;
+	// Each file moved into the trash and the vault path it came from
+	files: { trashPath: string; path: string }[];
+}
+
+// Hidden from the vault: Obsidian doesn't index folders starting with a dot
+export const TRASH_FOLDER = '.pinbox-trash';
+export const TOMBSTONE_FILE_NAME = 'item.json';
+
+export function getTrashPath(id: number): string {
+	return `${TRASH_FOLDER}/${id}`;
+}
+
+/**
+ * Ids whose Pinbox delete is due, or all of them when `force` is set.
+ */
+export function getDueDeletions(queue: Record<string, DeletionEntry>, force: boolean): number[] {
+	const now = Date.now();
+	return Object.keys(queue)
+		.filter(id => force || queue[id].deleteAfter <= now)
+		.map(id => Number(id));
+}
@@ -0,0 +1,105 @@
+import { ArticleMetadata } from './articleMetadata';
+
+// 'inline' embeds images as data URIs, 'local' downloads them next to the snapshot
+export type SnapshotImageMode = 'inline' | 'local';
+
+// Saved in the item's attachment folder, imageFolder/<id>/
+export const SNAPSHOT_FILE_NAME = 'snapshot.html';
+
+export interface SnapshotInfo {
+	title: string;
+	url: string;
+	savedAt: number;
+	metadata: ArticleMetadata;
+}
+
+/**
+ * Make the article work without the site: links and image sources become
+ * absolute, srcset and inline visibility tricks go. Returns the images whose
+ * `src` the caller should replace with a data URI or a local file.
+ */
+export function prepareSnapshotRoot(root: Element, baseUrl: string): HTMLImageElement[] {
+	// WeChat hides #js_content until its scripts have run
+	root.removeAttribute('style');
+
+	root.querySelectorAll('a[href]').forEach(link => {
+		const href = resolveUrl(link.getAttribute('href') ?? '', baseUrl);
+		if (href) {
+			link.setAttribute('href', href);
+		}
+	});
+
+	const images: HTMLImageElement[] = [];
+	root.querySelectorAll('img').forEach(img => {
+		img.removeAttribute('srcset');
+		img.removeAttribute('loading');
+		const src = resolveUrl(img.getAttribute('src') ?? '', baseUrl);
+		if (src) {
+			img.setAttribute('src', src);
+			images.push(img);
+		}
+	});
+	root.querySelectorAll('picture source').forEach(source => source.remove());
+	return images;
+}
+
+/**
+ * The snapshot page: a header with the title, source and metadata, then the
+ * article. Styles are inline so the file opens the same anywhere.
+ */
+export function renderSnapshot(root: Element, info: SnapshotInfo): string {
+	const details = [info.metadata.author, info.metadata.siteName, info.metadata.published]
+		.filter((value): value is string => !!value)
+		.map(escapeHtml)
+		.join(' · ');
+	const savedAt = new Date(info.savedAt).toLocaleString('zh-CN');
+
+	return `<!DOCTYPE html>
+<html lang="${escapeHtml(info.metadata.lang ?? 'zh-CN')}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(info.title)}</title>
+<style>
+body { max-width: 760px; margin: 0 auto; padding: 24px 16px 64px; font-family: -apple-system, BlinkMacSystemFont, "PingFang SC", "Microsoft YaHei", sans-serif; line-height: 1.7; color: #222; }
+header { border-bottom: 1px solid #ddd; margin-bottom: 24px; padding-bottom: 12px; }
+header h1 { margin: 0 0 8px; font-size: 1.6em; line-height: 1.3; }
+header p { margin: 4px 0; color: #777; font-size: 0.9em; word-break: break-all; }
+img, video { max-width: 100%; height: auto; }
+pre { overflow-x: auto; padding: 12px; background: #f6f6f6; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; }
+</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(info.title)}</h1>
+${details ? `<p>${details}</p>\n` : ''}<p><a href="${escapeHtml(info.url)}">${escapeHtml(info.url)}</a></p>
+<p>保存于 ${escapeHtml(savedAt)}</p>
+</header>
+<article>
+${root.innerHTML}
+</article>
+</body>
+</html>
+`; // /skip I need use Chinese due to the majority of the target users is Chinese.
+}
+
+function resolveUrl(href: string, base: string): string | null {
+	if (!href || href.startsWith('data:') || href.startsWith('#')) {
+		return null;
+	}
+	try {
+		return new URL(href, base).href;
+	} catch {
+		return null;
+	}
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;');
+}
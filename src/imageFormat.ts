@@ -0,0 +1,188 @@
+/**
+ * What a downloaded image really is, read from its first bytes rather than
+ * from the URL, plus the size limits and the optional canvas re-encoding
+ * applied before it is stored.
+ */
+
+export type ImageFormat = 'jpg' | 'png' | 'gif' | 'webp' | 'bmp' | 'avif' | 'svg' | 'ico';
+
+// Format re-encoded images are stored in
+export type CompressFormat = 'webp' | 'jpeg';
+
+export interface ImageInfo {
+	format: ImageFormat;
+	// null when the header doesn't tell, e.g. SVG and AVIF
+	width: number | null;
+	height: number | null;
+}
+
+export interface ImageLimits {
+	maxSize: number; // in bytes, 0 for no limit
+	minDimension: number; // in pixels, images narrower or lower are skipped
+}
+
+export interface CompressedImage {
+	data: ArrayBuffer;
+	format: ImageFormat;
+}
+
+// PNGs and BMPs above this are worth re-encoding
+const COMPRESS_MIN_SIZE = 300 * 1024;
+const COMPRESS_QUALITY = 0.85;
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+	jpg: 'image/jpeg',
+	png: 'image/png',
+	gif: 'image/gif',
+	webp: 'image/webp',
+	bmp: 'image/bmp',
+	avif: 'image/avif',
+	svg: 'image/svg+xml',
+	ico: 'image/x-icon',
+};
+
+/**
+ * Format and dimensions from the file header, or null when the data is not
+ * an image we know, e.g. an HTML error page served with status 200.
+ */
+export function sniffImage(data: ArrayBuffer): ImageInfo | null {
+	const bytes = new Uint8Array(data);
+	const view = new DataView(data);
+	const ascii = (offset: number, length: number) => String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)));
+
+	if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(1, 3) === 'PNG') {
+		return { format: 'png', width: view.getUint32(16), height: view.getUint32(20) };
+	}
+	if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+		return { format: 'jpg', ...readJpegSize(bytes, view) };
+	}
+	if (bytes.length >= 10 && ascii(0, 4) === 'GIF8') {
+		return { format: 'gif', width: view.getUint16(6, true), height: view.getUint16(8, true) };
+	}
+	if (bytes.length >= 16 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+		return { format: 'webp', ...readWebpSize(bytes, view, ascii(12, 4)) };
+	}
+	if (bytes.length >= 26 && ascii(0, 2) === 'BM') {
+		return { format: 'bmp', width: view.getInt32(18, true), height: Math.abs(view.getInt32(22, true)) };
+	}
+	if (bytes.length >= 12 && ascii(4, 4) === 'ftyp' && /^avi[fs]$/.test(ascii(8, 4))) {
+		return { format: 'avif', width: null, height: null };
+	}
+	if (bytes.length >= 4 && bytes[0] === 0 && bytes[1] === 0 && bytes[2] === 1 && bytes[3] === 0) {
+		// The first icon's size, 0 means 256
+		return { format: 'ico', width: bytes[6] || 256, height: bytes[7] || 256 };
+	}
+	const text = new TextDecoder().decode(bytes.subarray(0, 1024));
+	if (/^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*(<!DOCTYPE svg[^>]*>\s*)?<svg[\s>]/i.test(text)) {
+		return { format: 'svg', width: null, height: null };
+	}
+	return null;
+}
+
+// Whether a vault file is an image, by its extension
+export function isImageExtension(extension: string): boolean {
+	const lower = extension.toLowerCase();
+	return lower === 'jpeg' || lower in MIME_TYPES;
+}
+
+export function getImageMimeType(format: ImageFormat): string {
+	return MIME_TYPES[format];
+}
+
+/**
+ * Why an image should not be stored, or null when it is within the limits.
+ */
+export function checkImageLimits(size: number, info: ImageInfo, limits: ImageLimits): string | null {
+	if (limits.maxSize > 0 && size > limits.maxSize) {
+		return `${Math.round(size / 1024)} KB is above the ${Math.round(limits.maxSize / 1024)} KB limit`;
+	}
+	if (limits.minDimension > 0 && info.width !== null && info.height !== null
+		&& (info.width < limits.minDimension || info.height < limits.minDimension)) {
+		return `${info.width}x${info.height} is below ${limits.minDimension}px`;
+	}
+	return null;
+}
+
+/**
+ * Large PNGs and BMPs, and any raster image bigger than `maxDimension` on
+ * one side. GIFs are left alone, a canvas only keeps their first frame.
+ */
+export function shouldCompress(size: number, info: ImageInfo, maxDimension: number): boolean {
+	if (!['jpg', 'png', 'webp', 'bmp'].includes(info.format)) {
+		return false;
+	}
+	if ((info.format === 'png' || info.format === 'bmp') && size > COMPRESS_MIN_SIZE) {
+		return true;
+	}
+	return maxDimension > 0 && info.width !== null && info.height !== null
+		&& Math.max(info.width, info.height) > maxDimension;
+}
+
+/**
+ * Draw the image on a canvas, scaled down to fit `maxDimension`, and encode
+ * it as WebP or JPEG. Returns null when that doesn't make it smaller or the
+ * platform can't decode it.
+ */
+export async function compressImage(data: ArrayBuffer, info: ImageInfo, format: CompressFormat, maxDimension: number): Promise<CompressedImage | null> {
+	const bitmap = await window.createImageBitmap(new Blob([data], { type: getImageMimeType(info.format) }));
+	try {
+		const scale = maxDimension > 0 ? Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height)) : 1;
+		const canvas = document.createElement('canvas');
+		canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+		canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+		const context = canvas.getContext('2d');
+		if (!context) {
+			return null;
+		}
+		if (format === 'jpeg') {
+			// JPEG has no transparency, it would turn black
+			context.fillStyle = '#ffffff';
+			context.fillRect(0, 0, canvas.width, canvas.height);
+		}
+		context.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+
+		const mimeType = format === 'webp' ? 'image/webp' : 'image/jpeg';
+		const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, mimeType, COMPRESS_QUALITY));
+		// Browsers that can't encode WebP hand back a PNG
+		if (!blob || blob.type !== mimeType || blob.size >= data.byteLength) {
+			return null;
+		}
+		return { data: await blob.arrayBuffer(), format: format === 'webp' ? 'webp' : 'jpg' };
+	} finally {
+		bitmap.close();
+	}
+}
+
+// Dimensions from the first start-of-frame segment
+function readJpegSize(bytes: Uint8Array, view: DataView): { width: number | null; height: number | null } {
+	let offset = 2;
+	while (offset + 9 < bytes.length) {
+		if (bytes[offset] !== 0xff) {
+			break;
+		}
+		const marker = bytes[offset + 1];
+		// SOF0-SOF15, except DHT, JPG and DAC which share the range
+		if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+			return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+		}
+		offset += 2 + view.getUint16(offset + 2);
+	}
+	return { width: null, height: null };
+}
+
+function readWebpSize(bytes: Uint8Array, view: DataView, chunk: string): { width: number | null; height: number | null } {
+	if (chunk === 'VP8 ' && bytes.length >= 30) {
+		return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+	}
+	if (chunk === 'VP8L' && bytes.length >= 25) {
+		const bits = view.getUint32(21, true);
+		return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+	}
+	if (chunk === 'VP8X' && bytes.length >= 30) {
+		return {
+			width: (bytes[24] | bytes[25] << 8 | bytes[26] << 16) + 1,
+			height: (bytes[27] | bytes[28] << 8 | bytes[29] << 16) + 1,
+		};
+	}
+	return { width: null, height: null };
+}
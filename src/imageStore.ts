@@ -0,0 +1,98 @@
+/**
+ * Downloaded images are stored once per content, as imageFolder/<hash>.<ext>,
+ * and tracked in settings.imageIndex: which URL gave which file, and which
+ * items embed it. Items whose images have the same bytes share one file; it
+ * goes when the last of them is forgotten.
+ */
+export interface StoredImage {
+	path: string;
+	items: number[];
+}
+
+export interface ImageIndex {
+	images: Record<string, StoredImage>; // content hash -> file
+	urls: Record<string, string>; // image URL -> content hash
+}
+
+export function createImageIndex(): ImageIndex {
+	return { images: {}, urls: {} };
+}
+
+/**
+ * First 128 bits of the SHA-256 of the file, as hex. Same bytes, same name.
+ */
+export async function hashContent(data: ArrayBuffer): Promise<string> {
+	const digest = new Uint8Array(await window.crypto.subtle.digest('SHA-256', data));
+	let hex = '';
+	for (let i = 0; i < 16; i++) {
+		hex += (digest[i] < 16 ? '0' : '') + digest[i].toString(16);
+	}
+	return hex;
+}
+
+// The hash of an image URL downloaded before, if its file is still known
+export function findImageByUrl(index: ImageIndex, url: string): string | null {
+	const hash = index.urls[url];
+	return hash && index.images[hash] ? hash : null;
+}
+
+export function addImageReference(index: ImageIndex, hash: string, path: string, url: string, itemId: number) {
+	const image = index.images[hash] ?? { path, items: [] };
+	image.path = path;
+	if (!image.items.includes(itemId)) {
+		image.items.push(itemId);
+	}
+	index.images[hash] = image;
+	index.urls[url] = hash;
+}
+
+/**
+ * Drop an item's references. Returns the paths of the images no other item
+ * uses, for the caller to delete; they are removed from the index.
+ */
+export function releaseItemImages(index: ImageIndex, itemId: number): string[] {
+	const unused: string[] = [];
+	for (const hash of Object.keys(index.images)) {
+		const image = index.images[hash];
+		if (!image.items.includes(itemId)) {
+			continue;
+		}
+		image.items = image.items.filter(id => id !== itemId);
+		if (image.items.length === 0) {
+			unused.push(image.path);
+			delete index.images[hash];
+		}
+	}
+	forgetUnusedUrls(index);
+	return unused;
+}
+
+/**
+ * Remove the images at `paths` from the index, e.g. after they were trashed.
+ */
+export function forgetImagePaths(index: ImageIndex, paths: string[]) {
+	for (const hash of Object.keys(index.images)) {
+		if (paths.includes(index.images[hash].path)) {
+			delete index.images[hash];
+		}
+	}
+	forgetUnusedUrls(index);
+}
+
+export function formatFileSize(bytes: number): string {
+	if (bytes < 1024) {
+		return `${bytes} B`;
+	}
+	if (bytes < 1024 * 1024) {
+		return `${(bytes / 1024).toFixed(1)} KB`;
+	}
+	return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function forgetUnusedUrls(index: ImageIndex) {
+	for (const url of Object.keys(index.urls)) {
+		if (!index.images[index.urls[url]]) {
+			delete index.urls[url];
+		}
+	}
+}
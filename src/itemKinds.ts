@@ -0,0 +1,149 @@
+import { ArticleMetadata } from './articleMetadata';
+import { PinboxBookmark } from './pinboxApi';
+
+/**
+ * How an item's content is obtained:
+ * - text: Pinbox text/note items, rendered from their own fields
+ * - pdf, image: the URL is the file itself, downloaded as an attachment
+ * - video: Bilibili and YouTube, an embed plus the video's metadata
+ * - webpage: everything else, fetched and converted to Markdown
+ */
+export type ContentKind = 'text' | 'pdf' | 'image' | 'video' | 'webpage';
+
+export interface VideoSource {
+	platform: 'bilibili' | 'youtube';
+	canonicalUrl: string;
+	// Markdown that embeds the player in the note
+	embed: string;
+	// JSON endpoint with the title, uploader etc.
+	metadataUrl: string;
+}
+
+const TEXT_ITEM_TYPES = ['text', 'note', 'memo'];
+const IMAGE_ITEM_TYPES = ['image', 'picture', 'photo'];
+const IMAGE_EXTENSION = /\.(jpe?g|png|gif|webp|bmp|svg|avif)$/i;
+
+export function getContentKind(url: string, itemType: string = ''): ContentKind {
+	const type = itemType.toLowerCase();
+	if (!url || TEXT_ITEM_TYPES.includes(type)) {
+		return 'text';
+	}
+	if (parseVideoUrl(url)) {
+		return 'video';
+	}
+
+	const pathname = getPathname(url);
+	if (type === 'pdf' || /\.pdf$/i.test(pathname)) {
+		return 'pdf';
+	}
+	if (IMAGE_ITEM_TYPES.includes(type) || IMAGE_EXTENSION.test(pathname)) {
+		return 'image';
+	}
+	return 'webpage';
+}
+
+/**
+ * The content block of a text item: its text, no network involved.
+ */
+export function getTextItemContent(bookmark: PinboxBookmark): string {
+	return (bookmark.description || bookmark.brief || '').trim();
+}
+
+export function parseVideoUrl(url: string): VideoSource | null {
+	let parsed: URL;
+	try {
+		parsed = new URL(url);
+	} catch {
+		return null;
+	}
+	const host = parsed.hostname.replace(/^(www|m)\./, '');
+
+	if (host === 'bilibili.com') {
+		const match = /^\/video\/(BV[0-9A-Za-z]{10}|av(\d+))/i.exec(parsed.pathname);
+		if (!match) {
+			return null;
+		}
+		const idParam = match[2] ? `aid=${match[2]}` : `bvid=${match[1]}`;
+		const page = parsed.searchParams.get('p');
+		const pageParam = page && /^\d+$/.test(page) ? `&page=${page}` : '';
+		return {
+			platform: 'bilibili',
+			canonicalUrl: `https://www.bilibili.com/video/${match[1]}/`,
+			embed: `<iframe src="https://player.bilibili.com/player.html?${idParam}${pageParam}&autoplay=0" width="100%" height="400" frameborder="0" allowfullscreen></iframe>`,
+			metadataUrl: `https://api.bilibili.com/x/web-interface/view?${idParam}`,
+		};
+	}
+
+	let videoId: string | null = null;
+	if (host === 'youtu.be') {
+		videoId = parsed.pathname.substring(1).split('/')[0];
+	} else if (host === 'youtube.com') {
+		videoId = parsed.pathname === '/watch'
+			? parsed.searchParams.get('v')
+			: /^\/(?:shorts|embed|live)\/([^/]+)/.exec(parsed.pathname)?.[1] ?? null;
+	}
+	if (!videoId || !/^[\w-]{6,}$/.test(videoId)) {
+		return null;
+	}
+	const canonicalUrl = `https://www.youtube.com/watch?v=${videoId}`;
+	return {
+		platform: 'youtube',
+		canonicalUrl,
+		// Obsidian turns an image embed of a YouTube link into a player
+		embed: `![](${canonicalUrl})`,
+		metadataUrl: `https://www.youtube.com/oembed?url=${encodeURIComponent(canonicalUrl)}&format=json`,
+	};
+}
+
+/**
+ * Metadata from the response of `VideoSource.metadataUrl`: Bilibili's view API
+ * or YouTube's oEmbed. `description` is shown below the player.
+ */
+export function parseVideoMetadata(source: VideoSource, json: unknown): { metadata: ArticleMetadata; description: string } {
+	const data = (source.platform === 'bilibili' ? (json as { data?: unknown } | null)?.data : json) as Record<string, unknown> | null | undefined;
+	if (!data || typeof data !== 'object') {
+		return { metadata: {}, description: '' };
+	}
+
+	if (source.platform === 'bilibili') {
+		const owner = data.owner as { name?: unknown } | undefined;
+		return {
+			metadata: {
+				author: typeof owner?.name === 'string' ? owner.name : undefined,
+				// Unix time in seconds, mergeMetadata turns it into a date
+				published: typeof data.pubdate === 'number' ? String(data.pubdate) : undefined,
+				siteName: '哔哩哔哩', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			},
+			description: typeof data.desc === 'string' && data.desc !== '-' ? data.desc.trim() : '',
+		};
+	}
+
+	return {
+		metadata: {
+			author: typeof data.author_name === 'string' ? data.author_name : undefined,
+			siteName: typeof data.provider_name === 'string' ? data.provider_name : 'YouTube',
+		},
+		description: '',
+	};
+}
+
+/**
+ * File extension for a downloaded image: from the response's Content-Type,
+ * else from the URL, else jpg.
+ */
+export function getImageExtension(contentType: string, url: string): string {
+	const typeMatch = /^image\/(jpeg|png|gif|webp|bmp|avif|svg)/.exec(contentType);
+	if (typeMatch) {
+		return typeMatch[1] === 'jpeg' ? 'jpg' : typeMatch[1];
+	}
+	const extensionMatch = IMAGE_EXTENSION.exec(getPathname(url));
+	return extensionMatch ? extensionMatch[1].toLowerCase().replace('jpeg', 'jpg') : 'jpg';
+}
+
+function getPathname(url: string): string {
+	try {
+		return new URL(url).pathname;
+	} catch {
+		return '';
+	}
+}
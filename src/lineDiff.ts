@@ -0,0 +1,77 @@
+export type DiffLineType = 'same' | 'added' | 'removed';
+
+export interface DiffLine {
+	type: DiffLineType;
+	text: string;
+}
+
+// Above this many table cells the changed part is shown as all removed, then
+// all added, instead of matching lines
+const MAX_DIFF_CELLS = 2000000;
+
+/**
+ * Line diff of two texts, based on the longest common subsequence of lines.
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+	const oldLines = oldText ? oldText.split('\n') : [];
+	const newLines = newText ? newText.split('\n') : [];
+
+	// Edits are usually local, matching the unchanged ends first keeps the table small
+	let prefix = 0;
+	while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix
+		&& oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+		suffix++;
+	}
+
+	return toLines(oldLines.slice(0, prefix), 'same')
+		.concat(diffMiddle(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix)))
+		.concat(toLines(oldLines.slice(oldLines.length - suffix), 'same'));
+}
+
+function diffMiddle(oldLines: string[], newLines: string[]): DiffLine[] {
+	const n = oldLines.length;
+	const m = newLines.length;
+	if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+		return toLines(oldLines, 'removed').concat(toLines(newLines, 'added'));
+	}
+
+	// lengths[i * width + j]: common subsequence length of oldLines[i..] and newLines[j..]
+	const width = m + 1;
+	const lengths = new Uint32Array((n + 1) * width);
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			lengths[i * width + j] = oldLines[i] === newLines[j]
+				? lengths[(i + 1) * width + j + 1] + 1
+				: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+
+	const result: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < n && j < m) {
+		if (oldLines[i] === newLines[j]) {
+			result.push({ type: 'same', text: oldLines[i] });
+			i++;
+			j++;
+		} else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+			result.push({ type: 'removed', text: oldLines[i] });
+			i++;
+		} else {
+			result.push({ type: 'added', text: newLines[j] });
+			j++;
+		}
+	}
+
+	return result
+		.concat(toLines(oldLines.slice(i), 'removed'))
+		.concat(toLines(newLines.slice(j), 'added'));
+}
+
+function toLines(lines: string[], type: DiffLineType): DiffLine[] {
+	return lines.map(text => ({ type, text }));
+}
@@ -0,0 +1,27 @@
+import { normalizePath } from 'obsidian';
+
+/**
+ * Path for a note named `baseName` in `folder`. When the name is already taken
+ * by another file, the item id is appended so the name stays the same on every
+ * device and sync: "Title", "Title (42)", "Title (42-2)", ...
+ * `currentPath` is the note's own path and never counts as taken.
+ */
+export function getAvailableNotePath(folder: string, baseName: string, id: number, isTaken: (path: string) => boolean, currentPath?: string): string {
+	const isAvailable = (path: string) => path === currentPath || !isTaken(path);
+	const candidates = [baseName, `${baseName} (${id})`];
+
+	for (const candidate of candidates) {
+		const path = normalizePath(`${folder}/${candidate}.md`);
+		if (isAvailable(path)) {
+			return path;
+		}
+	}
+
+	let suffix = 2;
+	let path: string;
+	do {
+		path = normalizePath(`${folder}/${baseName} (${id}-${suffix}).md`);
+		suffix++;
+	} while (!isAvailable(path));
+	return path;
+}
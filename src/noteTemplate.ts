@@ -0,0 +1,290 @@
+import { moment } from 'obsidian';
+import { ArticleMetadata } from './articleMetadata';
+import { PinboxBookmark, PinboxCollection, parsePinboxDate } from './pinboxApi';
+
+export type TemplateValue = string | number | boolean | string[] | null | undefined;
+export type TemplateContext = Record<string, TemplateValue>;
+
+type TemplateNode =
+	| { type: 'text'; value: string }
+	| { type: 'var'; expression: string }
+	| { type: 'if'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] };
+
+// The built-in layout. `{{content}}` expands to the fetched page wrapped in the
+// content markers, so it should appear exactly once.
+export const DEFAULT_NOTE_TEMPLATE = `---
+id: {{id}}
+title: {{title|yaml}}
+url: {{url|yaml}}
+item_type: {{item_type}}
+created_at: {{created_at}}
+{{#if tags}}
+tags: {{tags|yaml}}
+{{/if}}
+{{#if collection_id}}
+collection_id: {{collection_id}}
+{{/if}}
+{{#if collection}}
+collection: {{collection|yaml}}
+collection_path: {{collection_path|yaml}}
+{{/if}}
+{{#if collection_note}}
+collection_note: {{collection_note|yaml}}
+{{/if}}
+{{#if view}}
+view: {{view}}
+{{/if}}
+{{#if brief}}
+brief: {{brief|oneline|yaml}}
+{{/if}}
+{{#if description}}
+description: {{description|oneline|yaml}}
+{{/if}}
+{{#if image}}
+image: {{image|yaml}}
+{{/if}}
+{{#if author}}
+author: {{author|yaml}}
+{{/if}}
+{{#if published}}
+published: {{published}}
+{{/if}}
+{{#if site_name}}
+site_name: {{site_name|yaml}}
+{{/if}}
+{{#if canonical_url}}
+canonical_url: {{canonical_url|yaml}}
+{{/if}}
+{{#if lang}}
+lang: {{lang|yaml}}
+{{/if}}
+{{#if word_count}}
+word_count: {{word_count}}
+{{/if}}
+{{#if snapshot}}
+snapshot: {{snapshot|yaml}}
+{{/if}}
+synced_at: {{synced_at}}
+---
+
+{{#if note}}
+## 笔记
+
+{{note}}
+
+{{/if}}
+{{content}}
+`; // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+// Written between the content markers when the page could not be fetched
+export const DEFAULT_CONTENT_FALLBACK_TEMPLATE = `> ⚠️ 无法自动获取网页内容。可能的原因:
+> - 网页需要 JavaScript 才能加载内容
+> - 网页加载速度过慢
+> - 网页需要登录或特殊权限
+> - 网页链接已失效
+>
+> 请在元数据中点击 url 链接查看完整内容。`; // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+// Used by the template preview in the settings tab
+export const SAMPLE_BOOKMARK: PinboxBookmark = {
+	id: 12345678,
+	title: '示例书签：如何整理你的阅读清单', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	url: 'https://example.com/articles/reading-list',
+	description: '一篇关于整理阅读清单的文章。', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	tags: ['阅读', 'productivity'], // /skip I need use Chinese due to the majority of the target users is Chinese.
+	created_at: '2025-01-13 10:00:00',
+	item_type: 'website',
+	brief: '把稍后阅读变成真正的阅读。', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	note: '周末读完，摘录第三部分。', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	thumbnail: 'https://example.com/cover.jpg',
+	collection_id: 42,
+	view: 3,
+};
+
+export const SAMPLE_METADATA: ArticleMetadata = {
+	author: '张三', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	published: '2025-01-10',
+	siteName: '示例博客', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	canonicalUrl: 'https://example.com/articles/reading-list',
+	lang: 'zh-CN',
+	wordCount: 2480,
+};
+
+export const SAMPLE_COLLECTION: PinboxCollection = {
+	id: 42,
+	parent_id: null,
+	name: '示例收藏夹', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	description: '',
+	created_at: '2025-01-01 00:00:00',
+	edited_at: '2025-01-01 00:00:00',
+	items_count: 1,
+};
+
+/**
+ * Render a note template. Supported syntax:
+ * - `{{name}}` and filters `{{name|filter:arg|other}}`: date, yaml, join, oneline, lower, upper, default
+ * - `{{name:FORMAT}}` as a short form of `{{name|date:FORMAT}}`
+ * - `{{#if name}}...{{else}}...{{/if}}` and `{{#unless name}}...{{/unless}}`
+ * Block tags on a line of their own don't leave an empty line behind.
+ */
+export function renderTemplate(template: string, context: TemplateContext): string {
+	return renderNodes(parseTemplate(stripStandaloneTags(template)), context);
+}
+
+/**
+ * Top-level keys of the template's frontmatter, i.e. the keys a sync may rewrite
+ * or remove on update. Keys the user adds to a note by hand are not included.
+ */
+export function getTemplateFrontmatterKeys(template: string): string[] {
+	const match = /^---\r?\n([\s\S]*?)\r?\n---/.exec(template);
+	if (!match) {
+		return [];
+	}
+
+	const keys: string[] = [];
+	const keyRegex = /^([A-Za-z0-9_-]+):/gm;
+	let keyMatch;
+	while ((keyMatch = keyRegex.exec(match[1])) !== null) {
+		if (!keys.includes(keyMatch[1])) {
+			keys.push(keyMatch[1]);
+		}
+	}
+	return keys;
+}
+
+function stripStandaloneTags(template: string): string {
+	return template.replace(/^[ \t]*({{\s*(?:#if|#unless|else|\/if|\/unless)\b[^}]*}})[ \t]*\r?\n/gm, '$1');
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+	const root: TemplateNode[] = [];
+	// Each open block keeps the list currently being filled
+	const stack: { node: Extract<TemplateNode, { type: 'if' }>; inElse: boolean }[] = [];
+	const current = (): TemplateNode[] => {
+		const top = stack[stack.length - 1];
+		if (!top) {
+			return root;
+		}
+		return top.inElse ? top.node.otherwise : top.node.then;
+	};
+
+	const tagRegex = /{{\s*([^}]*?)\s*}}/g;
+	let lastIndex = 0;
+	let match;
+	while ((match = tagRegex.exec(template)) !== null) {
+		if (match.index > lastIndex) {
+			current().push({ type: 'text', value: template.substring(lastIndex, match.index) });
+		}
+		lastIndex = match.index + match[0].length;
+
+		const tag = match[1];
+		const blockMatch = /^#(if|unless)\s+(\S+)$/.exec(tag);
+		if (blockMatch) {
+			const node: TemplateNode = { type: 'if', name: blockMatch[2], negate: blockMatch[1] === 'unless', then: [], otherwise: [] };
+			current().push(node);
+			stack.push({ node, inElse: false });
+		} else if (tag === 'else' && stack.length > 0) {
+			stack[stack.length - 1].inElse = true;
+		} else if ((tag === '/if' || tag === '/unless') && stack.length > 0) {
+			stack.pop();
+		} else {
+			current().push({ type: 'var', expression: tag });
+		}
+	}
+
+	if (lastIndex < template.length) {
+		current().push({ type: 'text', value: template.substring(lastIndex) });
+	}
+
+	// Unclosed blocks are closed at the end of the template
+	return root;
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+	let output = '';
+	for (const node of nodes) {
+		if (node.type === 'text') {
+			output += node.value;
+		} else if (node.type === 'var') {
+			output += renderExpression(node.expression, context);
+		} else {
+			const truthy = isTruthy(context[node.name]);
+			output += renderNodes(truthy !== node.negate ? node.then : node.otherwise, context);
+		}
+	}
+	return output;
+}
+
+function isTruthy(value: TemplateValue): boolean {
+	if (Array.isArray(value)) {
+		return value.length > 0;
+	}
+	return !!value;
+}
+
+function renderExpression(expression: string, context: TemplateContext): string {
+	const [head, ...filters] = expression.split('|').map(part => part.trim());
+	// `{{created_at:YYYY-MM-DD}}` is short for `{{created_at|date:YYYY-MM-DD}}`
+	const separator = head.indexOf(':');
+	const name = separator === -1 ? head : head.substring(0, separator);
+	if (separator !== -1) {
+		filters.unshift(`date${head.substring(separator)}`);
+	}
+	let value: TemplateValue = context[name];
+
+	for (const filter of filters) {
+		const separator = filter.indexOf(':');
+		const filterName = separator === -1 ? filter : filter.substring(0, separator);
+		const arg = separator === -1 ? '' : filter.substring(separator + 1);
+		value = applyFilter(filterName, arg, value);
+	}
+
+	return stringifyValue(value);
+}
+
+function applyFilter(name: string, arg: string, value: TemplateValue): TemplateValue {
+	switch (name) {
+		case 'date': {
+			if (typeof value !== 'string' && typeof value !== 'number') {
+				return value;
+			}
+			const time = parsePinboxDate(value);
+			return isNaN(time) ? value : formatDate(time, arg || 'YYYY-MM-DD');
+		}
+		case 'yaml':
+			// JSON strings and arrays are valid YAML flow scalars/sequences
+			if (value === null || value === undefined) {
+				return '""';
+			}
+			return typeof value === 'string' || Array.isArray(value) ? JSON.stringify(value) : String(value);
+		case 'join':
+			return Array.isArray(value) ? value.join(arg || ', ') : value;
+		case 'oneline':
+			return typeof value === 'string' ? value.replace(/\s*\n\s*/g, ' ').trim() : value;
+		case 'lower':
+			return typeof value === 'string' ? value.toLowerCase() : value;
+		case 'upper':
+			return typeof value === 'string' ? value.toUpperCase() : value;
+		case 'default':
+			return isTruthy(value) ? value : arg;
+		default:
+			console.warn(`[NoteTemplate] Unknown filter: ${name}`);
+			return value;
+	}
+}
+
+function formatDate(time: number, format: string): string {
+	// Obsidian types `moment` as a namespace import, which TypeScript won't call under esModuleInterop
+	const callMoment = moment as unknown as (input: number) => { format(format: string): string };
+	return callMoment(time).format(format);
+}
+
+function stringifyValue(value: TemplateValue): string {
+	if (value === null || value === undefined) {
+		return '';
+	}
+	if (Array.isArray(value)) {
+		return value.join(', ');
+	}
+	return String(value);
+}
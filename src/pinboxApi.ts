@@ -1,4 +1,6 @@
-import { requestUrl, RequestUrlParam } from 'obsidian';
+import { RequestUrlParam } from 'obsidian';
+import { RequestCancelledError, RequestScheduler } from './requestScheduler';
+import { DEFAULT_SETTINGS } from './settings';
 
 interface JWTPayload {
 	aud?: string;
@@ -42,6 +44,23 @@ export interface PinboxBookmark {
 	view?: number;
 }
 
+// Fields of an item that can be changed from the vault
+export interface PinboxItemChanges {
+	title?: string;
+	note?: string;
+	tags?: string[];
+	collection_id?: number; // 0 for the default collection
+}
+
+// A link to save as a new item, see PinboxAPI.createItem()
+export interface NewPinboxItem {
+	url: string;
+	title?: string;
+	note?: string;
+	tags?: string[];
+	collection_id?: number; // left out for the default collection
+}
+
 export interface PinboxCollection {
 	id: number;
 	parent_id: number | null;
@@ -52,13 +71,50 @@ export interface PinboxCollection {
 	items_count: number;
 }
 
+// Options for the calls that list items during a sync
+export interface FetchOptions {
+	signal?: AbortSignal;
+	// Called with the number of items each fetched page added
+	onItems?: (count: number) => void;
+}
+
+export interface BookmarkFetchResult {
+	bookmarks: PinboxBookmark[];
+	collections: PinboxCollection[];
+	// Collections whose items could not be fetched, the bookmark list is incomplete when non-empty
+	failedCollections: { collection: PinboxCollection; reason: string }[];
+}
+
+// Ids per DELETE request, keeps the query string well below URL length limits
+const DELETE_BATCH_SIZE = 100;
+
+/**
+ * Parse a Pinbox timestamp (e.g. "2025-01-13 10:00:00" or an ISO string).
+ * Returns NaN when the value cannot be parsed.
+ */
+export function parsePinboxDate(value: string | number | undefined): number {
+	if (value === undefined || value === null || value === '') {
+		return NaN;
+	}
+	if (typeof value === 'number') {
+		// Unix timestamps in seconds
+		return value < 1e12 ? value * 1000 : value;
+	}
+	if (/^\d+$/.test(value)) {
+		return parsePinboxDate(Number(value));
+	}
+	return Date.parse(value.includes('T') ? value : value.replace(' ', 'T'));
+}
+
 export class PinboxAPI {
 	private baseUrl = 'https://withpinbox.com';
 	private accessToken: string;
 	private userId: string | null = null;
+	private scheduler: RequestScheduler;
 
-	constructor(accessToken: string) {
+	constructor(accessToken: string, scheduler?: RequestScheduler) {
 		this.accessToken = accessToken;
+		this.scheduler = scheduler ?? new RequestScheduler(DEFAULT_SETTINGS);
 		console.debug('[PinboxAPI] Initialized with token:', accessToken ? `${accessToken.substring(0, 20)}...` : 'empty');
 	}
 
@@ -111,7 +167,7 @@ export class PinboxAPI {
 		return this.userId;
 	}
 
-	async getCollections(): Promise<PinboxCollection[]> {
+	async getCollections(signal?: AbortSignal): Promise<PinboxCollection[]> {
 		console.debug('[PinboxAPI] Fetching collections...');
 		try {
 			const userId = this.getUserId();
@@ -128,7 +184,7 @@ export class PinboxAPI {
 				}
 			};
 
-			const response = await requestUrl(params);
+			const response = await this.scheduler.request(params, 'api', signal);
 			console.debug('[PinboxAPI] Collections response status:', response.status);
 			console.debug('[PinboxAPI] Collections response:', response.json);
 
@@ -145,7 +201,7 @@ export class PinboxAPI {
 		}
 	}
 
-	async getCollectionItems(collectionId: number | string, count = 50, offset = 0): Promise<{ items: PinboxBookmark[], total: number }> {
+	async getCollectionItems(collectionId: number | string, count = 50, offset = 0, signal?: AbortSignal): Promise<{ items: PinboxBookmark[], total: number }> {
 		console.debug(`[PinboxAPI] Fetching items from collection ${collectionId} (offset: ${offset}, count: ${count})...`);
 		try {
 			const userId = this.getUserId();
@@ -162,7 +218,7 @@ export class PinboxAPI {
 				}
 			};
 
-			const response = await requestUrl(params);
+			const response = await this.scheduler.request(params, 'api', signal);
 			console.debug(`[PinboxAPI] Collection ${collectionId} response status:`, response.status);
 
 			if (response.status === 200) {
@@ -180,29 +236,65 @@ export class PinboxAPI {
 		}
 	}
 
-	async getAllCollectionItems(collectionId: number | string): Promise<PinboxBookmark[]> {
-		console.debug(`[PinboxAPI] Fetching all items from collection ${collectionId}...`);
+	/**
+	 * Fetch every item of a collection. When `since` is set, paging stops at the
+	 * first page that reaches items created before it: the API returns items
+	 * newest first (order=create&sort=desc), so nothing older can follow.
+	 */
+	async getAllCollectionItems(collectionId: number | string, since = 0, options: FetchOptions = {}): Promise<PinboxBookmark[]> {
+		console.debug(`[PinboxAPI] Fetching all items from collection ${collectionId}${since > 0 ? ` created since ${new Date(since).toISOString()}` : ''}...`);
 		let allItems: PinboxBookmark[] = [];
 		let offset = 0;
 		const pageSize = 50;
 
+		// Returns true once the page contains items older than `since`
+		const addPage = (items: PinboxBookmark[]): boolean => {
+			if (since <= 0) {
+				allItems = allItems.concat(items);
+				options.onItems?.(items.length);
+				return false;
+			}
+
+			const newer = items.filter(item => {
+				const createdAt = parsePinboxDate(item.created_at);
+				// Keep items with an unparsable date rather than silently dropping them
+				return isNaN(createdAt) || createdAt >= since;
+			});
+			allItems = allItems.concat(newer);
+			options.onItems?.(newer.length);
+			return newer.length < items.length;
+		};
+
 		try {
 			// First request to get total count
-			const firstPage = await this.getCollectionItems(collectionId, pageSize, offset);
-			allItems = allItems.concat(firstPage.items);
+			const firstPage = await this.getCollectionItems(collectionId, pageSize, offset, options.signal);
+			let reachedOlderItems = addPage(firstPage.items);
 			const total = firstPage.total;
 
 			console.debug(`[PinboxAPI] Collection ${collectionId} has ${total} total items`);
 
 			// Fetch remaining pages
 			offset += pageSize;
-			while (offset < total) {
+			if (since <= 0) {
+				// Nothing to stop early for, fetch the remaining pages in parallel
+				const offsets: number[] = [];
+				for (; offset < total; offset += pageSize) {
+					offsets.push(offset);
+				}
+				const pages = await Promise.all(offsets.map(pageOffset => this.getCollectionItems(collectionId, pageSize, pageOffset, options.signal)));
+				pages.forEach(page => addPage(page.items));
+			}
+			while (offset < total && !reachedOlderItems) {
 				console.debug(`[PinboxAPI] Fetching page at offset ${offset}...`);
-				const page = await this.getCollectionItems(collectionId, pageSize, offset);
-				allItems = allItems.concat(page.items);
+				const page = await this.getCollectionItems(collectionId, pageSize, offset, options.signal);
+				reachedOlderItems = addPage(page.items);
 				offset += pageSize;
 			}
 
+			if (reachedOlderItems) {
+				console.debug(`[PinboxAPI] Reached items older than last sync in collection ${collectionId}, stopped paging at offset ${offset}`);
+			}
+
 			console.debug(`[PinboxAPI] Fetched all ${allItems.length} items from collection ${collectionId}`);
 			return allItems;
 		} catch (error) {
@@ -211,36 +303,53 @@ export class PinboxAPI {
 		}
 	}
 
-	async getAllBookmarks(): Promise<PinboxBookmark[]> {
+	/**
+	 * Fetch the items of the default collection and of every collection, except
+	 * those in `excludedCollectionIds` (0 is the default collection).
+	 */
+	async getAllBookmarks(since = 0, excludedCollectionIds: number[] = [], options: FetchOptions = {}): Promise<BookmarkFetchResult> {
 		console.debug('[PinboxAPI] Starting to fetch all bookmarks...');
 		let allBookmarks: PinboxBookmark[] = [];
+		const failedCollections: BookmarkFetchResult['failedCollections'] = [];
 
 		try {
 			// First, get all collections
-			const collections = await this.getCollections();
-			console.debug(`[PinboxAPI] Will fetch items from ${collections.length + 1} collections (including default)`);
+			const collections = await this.getCollections(options.signal);
+			console.debug(`[PinboxAPI] Will fetch items from ${collections.length + 1} collections (including default), ${excludedCollectionIds.length} excluded`);
 
 			// Get items from default collection (id = 0)
-			console.debug('[PinboxAPI] Fetching items from default collection (id=0)...');
-			const defaultItems = await this.getAllCollectionItems(0);
-			allBookmarks = allBookmarks.concat(defaultItems);
-			console.debug(`[PinboxAPI] Total bookmarks so far: ${allBookmarks.length}`);
+			let defaultItems: Promise<PinboxBookmark[]> = Promise.resolve([]);
+			if (!excludedCollectionIds.includes(0)) {
+				console.debug('[PinboxAPI] Fetching items from default collection (id=0)...');
+				defaultItems = this.getAllCollectionItems(0, since, options);
+			}
 
-			// Get items from each collection
-			for (const collection of collections) {
+			// Get items from each collection, the scheduler limits how many requests run at once
+			const collectionItems = collections.map(async (collection) => {
+				if (excludedCollectionIds.includes(collection.id)) {
+					console.debug(`[PinboxAPI] Skipping excluded collection: ${collection.name} (id=${collection.id})`);
+					return [];
+				}
 				console.debug(`[PinboxAPI] Fetching items from collection: ${collection.name} (id=${collection.id}, expected ${collection.items_count} items)...`);
 				try {
-					const items = await this.getAllCollectionItems(collection.id);
-					allBookmarks = allBookmarks.concat(items);
-					console.debug(`[PinboxAPI] Total bookmarks so far: ${allBookmarks.length}`);
+					return await this.getAllCollectionItems(collection.id, since, options);
 				} catch (error) {
+					if (error instanceof RequestCancelledError) {
+						throw error;
+					}
 					console.error(`[PinboxAPI] Error fetching collection ${collection.id} (${collection.name}):`, error);
-					// Continue with next collection
+					// Continue with the other collections, but let the caller know the result is incomplete
+					failedCollections.push({ collection, reason: error instanceof Error ? error.message : String(error) });
+					return [];
 				}
+			});
+
+			for (const items of await Promise.all([defaultItems, ...collectionItems])) {
+				allBookmarks = allBookmarks.concat(items);
 			}
 
 			console.debug(`[PinboxAPI] Finished fetching all bookmarks. Total: ${allBookmarks.length}`);
-			return allBookmarks;
+			return { bookmarks: allBookmarks, collections, failedCollections };
 		} catch (error) {
 			console.error('[PinboxAPI] Error in getAllBookmarks:', error);
 			throw error;
@@ -264,12 +373,188 @@ export class PinboxAPI {
 	}
 
 	async deleteItem(itemId: number | string): Promise<boolean> {
-		console.debug(`[PinboxAPI] Deleting item ${itemId}...`);
+		return this.deleteItems([itemId]);
+	}
+
+	/**
+	 * Delete several items with one request per DELETE_BATCH_SIZE ids. Returns
+	 * false when Pinbox refuses a batch; batches sent before it stay deleted.
+	 */
+	async deleteItems(itemIds: (number | string)[]): Promise<boolean> {
+		console.debug(`[PinboxAPI] Deleting ${itemIds.length} items...`);
 		try {
 			const userId = this.getUserId();
-			const url = `${this.baseUrl}/api/user/${userId}/store?storeIds[]=${itemId}`;
-			console.debug('[PinboxAPI] Delete URL:', url);
-			console.debug('[PinboxAPI] Access Token:', this.accessToken ? `${this.accessToken.substring(0, 20)}...` : 'empty');
+			for (let start = 0; start < itemIds.length; start += DELETE_BATCH_SIZE) {
+				const batch = itemIds.slice(start, start + DELETE_BATCH_SIZE);
+				const query = batch.map(itemId => `storeIds[]=${itemId}`).join('&');
+				const url = `${this.baseUrl}/api/user/${userId}/store?${query}`;
+				console.debug('[PinboxAPI] Delete URL:', url);
+
+				const params: RequestUrlParam = {
+					url: url,
+					method: 'DELETE',
+					headers: {
+						'Authorization': `Bearer ${this.accessToken}`,
+						'Content-Type': 'application/json',
+						'Accept': 'application/json, text/plain, */*',
+						'X-Requested-With': 'XMLHttpRequest'
+					},
+					throw: false
+				};
+
+				const response = await this.scheduler.request(params);
+				console.debug(`[PinboxAPI] Delete items ${batch.join(', ')} response status:`, response.status);
+
+				if (response.status !== 200 && response.status !== 204) {
+					console.error(`[PinboxAPI] Failed to delete items ${batch.join(', ')}:`, response.status, response.text);
+					return false;
+				}
+			}
+			console.debug(`[PinboxAPI] Successfully deleted ${itemIds.length} items`);
+			return true;
+		} catch (error) {
+			console.error('[PinboxAPI] Error deleting items:', error);
+			throw error;
+		}
+	}
+
+	// Pinbox publishes no API docs. The write routes below are inferred from the
+	// routes above (GET .../collection/<id>/item, DELETE .../store) and from the
+	// JSON they return, and have not been checked against a live account.
+
+	/**
+	 * Change the title, note and/or tags of an item. Fields left out stay as
+	 * they are. Throws when Pinbox doesn't accept the change.
+	 * Route: PUT .../store/<id>, the item route of deleteItems; body fields named
+	 * as in the listed items.
+	 */
+	async updateItem(itemId: number | string, changes: PinboxItemChanges, signal?: AbortSignal): Promise<void> {
+		console.debug(`[PinboxAPI] Updating item ${itemId}:`, Object.keys(changes));
+		try {
+			const userId = this.getUserId();
+			const url = `${this.baseUrl}/api/user/${userId}/store/${itemId}`;
+
+			const params: RequestUrlParam = {
+				url: url,
+				method: 'PUT',
+				headers: {
+					'Authorization': `Bearer ${this.accessToken}`,
+					'Content-Type': 'application/json',
+					'Accept': 'application/json, text/plain, */*',
+					'X-Requested-With': 'XMLHttpRequest'
+				},
+				body: JSON.stringify(changes),
+				throw: false
+			};
+
+			const response = await this.scheduler.request(params, 'api', signal);
+			console.debug(`[PinboxAPI] Update item ${itemId} response status:`, response.status);
+
+			if (response.status !== 200 && response.status !== 204) {
+				throw new Error(`Failed to update item: ${response.status}`);
+			}
+		} catch (error) {
+			console.error(`[PinboxAPI] Error updating item ${itemId}:`, error);
+			throw error;
+		}
+	}
+
+	// Move an item to another collection, 0 for the default collection
+	async moveItem(itemId: number | string, collectionId: number, signal?: AbortSignal): Promise<void> {
+		await this.updateItem(itemId, { collection_id: collectionId }, signal);
+	}
+
+	/**
+	 * Create a collection, at the top level when `parentId` is null. Returns
+	 * the new collection.
+	 * Route: POST .../collection, the collections route of getCollectionItems;
+	 * body fields named as in getCollections.
+	 */
+	async createCollection(name: string, parentId: number | null): Promise<PinboxCollection> {
+		console.debug(`[PinboxAPI] Creating collection "${name}" (parent: ${parentId})`);
+		try {
+			const userId = this.getUserId();
+			const url = `${this.baseUrl}/api/user/${userId}/collection`;
+
+			const params: RequestUrlParam = {
+				url: url,
+				method: 'POST',
+				headers: {
+					'Authorization': `Bearer ${this.accessToken}`,
+					'Content-Type': 'application/json',
+					'Accept': 'application/json, text/plain, */*',
+					'X-Requested-With': 'XMLHttpRequest'
+				},
+				body: JSON.stringify({ name, parent_id: parentId }),
+				throw: false
+			};
+
+			const response = await this.scheduler.request(params, 'api');
+			console.debug('[PinboxAPI] Create collection response status:', response.status);
+
+			if (response.status !== 200 && response.status !== 201) {
+				throw new Error(`Failed to create collection: ${response.status}`);
+			}
+			const json = response.json as { collection?: Partial<PinboxCollection> } & Partial<PinboxCollection> | null;
+			const created = json?.collection ?? json;
+			if (!created || typeof created.id !== 'number') {
+				throw new Error('Pinbox did not return the new collection');
+			}
+			const now = new Date().toISOString();
+			return {
+				name,
+				parent_id: parentId,
+				description: '',
+				created_at: now,
+				edited_at: now,
+				items_count: 0,
+				...created,
+				id: created.id,
+			};
+		} catch (error) {
+			console.error('[PinboxAPI] Error creating collection:', error);
+			throw error;
+		}
+	}
+
+	// Route: PUT .../collection/<id>, see createCollection
+	async renameCollection(collectionId: number, name: string): Promise<void> {
+		console.debug(`[PinboxAPI] Renaming collection ${collectionId} to "${name}"`);
+		try {
+			const userId = this.getUserId();
+			const url = `${this.baseUrl}/api/user/${userId}/collection/${collectionId}`;
+
+			const params: RequestUrlParam = {
+				url: url,
+				method: 'PUT',
+				headers: {
+					'Authorization': `Bearer ${this.accessToken}`,
+					'Content-Type': 'application/json',
+					'Accept': 'application/json, text/plain, */*',
+					'X-Requested-With': 'XMLHttpRequest'
+				},
+				body: JSON.stringify({ name }),
+				throw: false
+			};
+
+			const response = await this.scheduler.request(params, 'api');
+			console.debug(`[PinboxAPI] Rename collection ${collectionId} response status:`, response.status);
+
+			if (response.status !== 200 && response.status !== 204) {
+				throw new Error(`Failed to rename collection: ${response.status}`);
+			}
+		} catch (error) {
+			console.error(`[PinboxAPI] Error renaming collection ${collectionId}:`, error);
+			throw error;
+		}
+	}
+
+	// Route: DELETE .../collection/<id>, see createCollection
+	async deleteCollection(collectionId: number): Promise<void> {
+		console.debug(`[PinboxAPI] Deleting collection ${collectionId}...`);
+		try {
+			const userId = this.getUserId();
+			const url = `${this.baseUrl}/api/user/${userId}/collection/${collectionId}`;
 
 			const params: RequestUrlParam = {
 				url: url,
@@ -283,21 +568,68 @@ export class PinboxAPI {
 				throw: false
 			};
 
-			console.debug('[PinboxAPI] Sending DELETE request...');
-			const response = await requestUrl(params);
-			console.debug(`[PinboxAPI] Delete item ${itemId} response status:`, response.status);
-			console.debug(`[PinboxAPI] Delete item ${itemId} response:`, response);
+			const response = await this.scheduler.request(params, 'api');
+			console.debug(`[PinboxAPI] Delete collection ${collectionId} response status:`, response.status);
 
-			if (response.status === 200 || response.status === 204) {
-				console.debug(`[PinboxAPI] Successfully deleted item ${itemId}`);
-				return true;
-			} else {
-				console.error(`[PinboxAPI] Failed to delete item ${itemId}:`, response.status, response.text);
-				return false;
+			if (response.status !== 200 && response.status !== 204) {
+				throw new Error(`Failed to delete collection: ${response.status}`);
 			}
 		} catch (error) {
-			console.error(`[PinboxAPI] Error deleting item ${itemId}:`, error);
-			console.error(`[PinboxAPI] Error details:`, JSON.stringify(error));
+			console.error(`[PinboxAPI] Error deleting collection ${collectionId}:`, error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Save a link to Pinbox. Returns the new item, filled in from `item` where
+	 * the response leaves fields out. Throws when Pinbox doesn't create it.
+	 * Route: POST .../store, the item route of deleteItems.
+	 */
+	async createItem(item: NewPinboxItem, signal?: AbortSignal): Promise<PinboxBookmark> {
+		console.debug('[PinboxAPI] Creating item:', item.url);
+		try {
+			const userId = this.getUserId();
+			const url = `${this.baseUrl}/api/user/${userId}/store`;
+
+			const params: RequestUrlParam = {
+				url: url,
+				method: 'POST',
+				headers: {
+					'Authorization': `Bearer ${this.accessToken}`,
+					'Content-Type': 'application/json',
+					'Accept': 'application/json, text/plain, */*',
+					'X-Requested-With': 'XMLHttpRequest'
+				},
+				body: JSON.stringify(item),
+				throw: false
+			};
+
+			const response = await this.scheduler.request(params, 'api', signal);
+			console.debug('[PinboxAPI] Create item response status:', response.status);
+
+			if (response.status !== 200 && response.status !== 201) {
+				throw new Error(`Failed to create item: ${response.status}`);
+			}
+			// Some endpoints wrap the item, e.g. { item: {...} }
+			const json = response.json as { item?: Partial<PinboxBookmark> } & Partial<PinboxBookmark> | null;
+			const created = json?.item ?? json;
+			if (!created || typeof created.id !== 'number') {
+				throw new Error('Pinbox did not return the new item');
+			}
+			return {
+				title: item.title || item.url,
+				url: item.url,
+				description: '',
+				tags: item.tags ?? [],
+				note: item.note,
+				created_at: new Date().toISOString(),
+				item_type: 'website',
+				collection_id: item.collection_id ?? null,
+				...created,
+				id: created.id,
+			};
+		} catch (error) {
+			console.error('[PinboxAPI] Error creating item:', error);
 			throw error;
 		}
 	}
@@ -324,7 +656,7 @@ export class PinboxAPI {
 				};
 
 				console.debug('[PinboxAPI] Trying session check URL:', endpoint);
-				const response = await requestUrl(params);
+				const response = await this.scheduler.request(params);
 				console.debug('[PinboxAPI] Session check response status:', response.status);
 				console.debug('[PinboxAPI] Session check response data:', response.json);
 
@@ -381,7 +713,7 @@ export class PinboxAPI {
 						})
 					};
 
-					const response = await requestUrl(params);
+					const response = await this.scheduler.request(params);
 					console.debug('[PinboxAPI] Token exchange response status:', response.status);
 					console.debug('[PinboxAPI] Token exchange response:', response.json);
 
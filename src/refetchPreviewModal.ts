@@ -0,0 +1,125 @@
+import { App, Modal, Setting } from 'obsidian';
+import { DiffLine } from './lineDiff';
+
+// Unchanged lines shown around each change, longer unchanged runs are folded
+const CONTEXT_LINES = 3;
+
+export interface RefetchPreviewOptions {
+	title: string;
+	diff: DiffLine[];
+	// Show the toggle for downloading the article's images again
+	offerImageDownload: boolean;
+}
+
+export interface RefetchPreviewResult {
+	confirmed: boolean;
+	downloadImages: boolean;
+}
+
+class RefetchPreviewModal extends Modal {
+	private options: RefetchPreviewOptions;
+	private resolve: (result: RefetchPreviewResult) => void;
+	private confirmed = false;
+	private downloadImages: boolean;
+
+	constructor(app: App, options: RefetchPreviewOptions, resolve: (result: RefetchPreviewResult) => void) {
+		super(app);
+		this.options = options;
+		this.resolve = resolve;
+		this.downloadImages = options.offerImageDownload;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(`重新获取：${this.options.title}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.modalEl.addClass('pinbox-refetch-modal');
+
+		const added = this.options.diff.filter(line => line.type === 'added').length;
+		const removed = this.options.diff.filter(line => line.type === 'removed').length;
+		contentEl.createEl('p', {
+			text: `网页内容有变化：新增 ${added} 行，删除 ${removed} 行。替换只影响笔记中的网页内容部分，frontmatter 和你的笔记保持不变。`, // /skip I need use Chinese due to the majority of the target users is Chinese.
+			cls: 'pinbox-refetch-summary'
+		});
+
+		this.renderDiff(contentEl.createDiv({ cls: 'pinbox-diff' }));
+
+		if (this.options.offerImageDownload) {
+			new Setting(contentEl)
+				.setName('重新下载图片') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.setDesc('把文章中的图片下载到本地；关闭则保留网页上的图片链接') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.addToggle(toggle => toggle
+					.setValue(this.downloadImages)
+					.onChange(value => {
+						this.downloadImages = value;
+					}));
+		}
+
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+		buttonContainer.createEl('button', {
+			text: '取消' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}).addEventListener('click', () => this.close());
+
+		buttonContainer.createEl('button', {
+			text: '替换内容', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			cls: 'mod-cta'
+		}).addEventListener('click', () => {
+			this.confirmed = true;
+			this.close();
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve({ confirmed: this.confirmed, downloadImages: this.confirmed && this.downloadImages });
+	}
+
+	private renderDiff(container: HTMLElement) {
+		const { diff } = this.options;
+		// Lines within CONTEXT_LINES of a change
+		const visible = diff.map(() => false);
+		diff.forEach((line, index) => {
+			if (line.type === 'same') {
+				return;
+			}
+			for (let i = Math.max(0, index - CONTEXT_LINES); i <= Math.min(diff.length - 1, index + CONTEXT_LINES); i++) {
+				visible[i] = true;
+			}
+		});
+
+		let folded = 0;
+		const flushFolded = () => {
+			if (folded > 0) {
+				container.createDiv({
+					text: `⋯ ${folded} 行未变化 ⋯`, // /skip I need use Chinese due to the majority of the target users is Chinese.
+					cls: 'pinbox-diff-fold'
+				});
+				folded = 0;
+			}
+		};
+
+		diff.forEach((line, index) => {
+			if (!visible[index]) {
+				folded++;
+				return;
+			}
+			flushFolded();
+			const prefix = line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  ';
+			container.createDiv({
+				text: prefix + line.text,
+				cls: `pinbox-diff-line pinbox-diff-${line.type}`
+			});
+		});
+		flushFolded();
+	}
+}
+
+/**
+ * Show what re-fetching a note would change and ask before replacing its
+ * content. Resolves with confirmed false when the modal is cancelled or closed.
+ */
+export function previewRefetch(app: App, options: RefetchPreviewOptions): Promise<RefetchPreviewResult> {
+	return new Promise(resolve => {
+		new RefetchPreviewModal(app, options, resolve).open();
+	});
+}
@@ -0,0 +1,209 @@
+import { requestUrl, RequestUrlParam, RequestUrlResponse } from 'obsidian';
+
+// 'api' is the Pinbox API, 'web' is any third-party site (articles, images)
+export type RequestKind = 'api' | 'web';
+
+export interface RequestLimits {
+	apiConcurrency: number;
+	webConcurrency: number;
+	webHostInterval: number; // in milliseconds, minimum gap between two requests to the same site
+}
+
+// Minimum gap between two Pinbox API requests
+const API_HOST_INTERVAL = 100;
+// How often a 429/503 response is retried before it is handed to the caller
+const MAX_RATE_LIMIT_RETRIES = 3;
+// Longer Retry-After values are capped, a sync should not stall for minutes
+const MAX_RETRY_DELAY = 60 * 1000;
+
+/**
+ * Thrown by requests and work started after a sync was cancelled.
+ */
+export class RequestCancelledError extends Error {
+	constructor() {
+		super('Cancelled');
+		this.name = 'RequestCancelledError';
+	}
+}
+
+export function throwIfCancelled(signal?: AbortSignal) {
+	if (signal?.aborted) {
+		throw new RequestCancelledError();
+	}
+}
+
+/**
+ * Runs at most `getConcurrency()` tasks at a time, the rest wait in FIFO order.
+ */
+class WorkerPool {
+	private active = 0;
+	private waiting: (() => void)[] = [];
+	private getConcurrency: () => number;
+
+	constructor(getConcurrency: () => number) {
+		this.getConcurrency = getConcurrency;
+	}
+
+	async run<T>(task: () => Promise<T>): Promise<T> {
+		if (this.active >= Math.max(1, this.getConcurrency())) {
+			// The finishing task hands its slot over, see release()
+			await new Promise<void>(resolve => this.waiting.push(resolve));
+		} else {
+			this.active++;
+		}
+
+		try {
+			return await task();
+		} finally {
+			this.release();
+		}
+	}
+
+	private release() {
+		const next = this.waiting.shift();
+		if (next && this.active <= Math.max(1, this.getConcurrency())) {
+			next();
+			return;
+		}
+		if (next) {
+			// The limit was lowered, put the waiter back and free the slot
+			this.waiting.unshift(next);
+		}
+		this.active--;
+	}
+}
+
+/**
+ * Every HTTP request of a sync goes through here. Pinbox API calls and
+ * third-party fetches have separate concurrency limits, requests to the same
+ * host are spaced out, and 429/503 responses are retried after the time the
+ * server asks for in Retry-After.
+ */
+export class RequestScheduler {
+	private limits: RequestLimits;
+	private pools: Record<RequestKind, WorkerPool>;
+	// host -> earliest time the next request to it may start
+	private nextRequestAt = new Map<string, number>();
+
+	// `limits` is read on every request, so it can be the live settings object
+	constructor(limits: RequestLimits) {
+		this.limits = limits;
+		this.pools = {
+			api: new WorkerPool(() => this.limits.apiConcurrency),
+			web: new WorkerPool(() => this.limits.webConcurrency),
+		};
+	}
+
+	/**
+	 * Same contract as requestUrl: throws on status >= 400 unless `throw: false`.
+	 * Once `signal` is aborted, requests that haven't started yet throw
+	 * RequestCancelledError; requestUrl itself can't be interrupted.
+	 */
+	async request(params: RequestUrlParam, kind: RequestKind = 'api', signal?: AbortSignal): Promise<RequestUrlResponse> {
+		const host = getHost(params.url);
+
+		for (let attempt = 0; ; attempt++) {
+			throwIfCancelled(signal);
+			const response = await this.pools[kind].run(async () => {
+				throwIfCancelled(signal);
+				await this.waitForHost(host, kind);
+				throwIfCancelled(signal);
+				return await requestUrl({ ...params, throw: false });
+			});
+
+			if ((response.status === 429 || response.status === 503) && attempt < MAX_RATE_LIMIT_RETRIES) {
+				const delay = getRetryDelay(response.headers, attempt);
+				console.warn(`[RequestScheduler] ${host} answered HTTP ${response.status}, retrying in ${delay}ms`);
+				// Hold back every request to this host, not just this one
+				this.deferHost(host, delay);
+				continue;
+			}
+
+			if (response.status >= 400 && params.throw !== false) {
+				throw new Error(`Request failed, status ${response.status}`);
+			}
+			return response;
+		}
+	}
+
+	private async waitForHost(host: string, kind: RequestKind) {
+		const interval = kind === 'api' ? API_HOST_INTERVAL : this.limits.webHostInterval;
+		const now = Date.now();
+		const start = Math.max(now, this.nextRequestAt.get(host) ?? 0);
+		this.nextRequestAt.set(host, start + Math.max(0, interval));
+		if (start > now) {
+			await new Promise(resolve => setTimeout(resolve, start - now));
+		}
+	}
+
+	private deferHost(host: string, delay: number) {
+		const until = Date.now() + delay;
+		if ((this.nextRequestAt.get(host) ?? 0) < until) {
+			this.nextRequestAt.set(host, until);
+		}
+	}
+}
+
+/**
+ * Map over `items` with at most `concurrency` workers running at once. Results
+ * keep the order of `items`. After the first error no new items are started,
+ * and the error is thrown once the items already running have finished.
+ */
+export async function mapConcurrent<T, R>(items: T[], concurrency: number, worker: (item: T, index: number) => Promise<R>): Promise<R[]> {
+	const results: R[] = new Array<R>(items.length);
+	let nextIndex = 0;
+	const errors: unknown[] = [];
+
+	const runWorker = async () => {
+		while (errors.length === 0 && nextIndex < items.length) {
+			const index = nextIndex++;
+			try {
+				results[index] = await worker(items[index], index);
+			} catch (error) {
+				errors.push(error);
+			}
+		}
+	};
+
+	const workers: Promise<void>[] = [];
+	for (let i = 0; i < Math.min(Math.max(1, concurrency), items.length); i++) {
+		workers.push(runWorker());
+	}
+	await Promise.all(workers);
+	if (errors.length > 0) {
+		throw errors[0];
+	}
+	return results;
+}
+
+function getHost(url: string): string {
+	try {
+		return new URL(url).host;
+	} catch {
+		return url;
+	}
+}
+
+// Response header names come in any case, empty when the header is missing
+export function getHeader(headers: Record<string, string>, name: string): string {
+	const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+	return key ? headers[key].trim() : '';
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function getRetryDelay(headers: Record<string, string>, attempt: number): number {
+	const value = getHeader(headers, 'retry-after');
+
+	let delay = NaN;
+	if (/^\d+$/.test(value)) {
+		delay = Number(value) * 1000;
+	} else if (value) {
+		delay = Date.parse(value) - Date.now();
+	}
+
+	if (isNaN(delay) || delay < 0) {
+		// No usable header: back off 1s, 2s, 4s
+		delay = 1000 * Math.pow(2, attempt);
+	}
+	return Math.min(delay, MAX_RETRY_DELAY);
+}
@@ -0,0 +1,38 @@
+/**
+ * An item whose web content could not be fetched, keyed by item id in
+ * settings.contentRetryQueue. Syncs retry it on a backoff schedule until the
+ * page loads or the schedule runs out; the retry command ignores the schedule.
+ */
+export interface ContentRetryEntry {
+	url: string;
+	title: string;
+	attempts: number; // failed fetches so far
+	nextAttempt: number; // 0 once automatic retries gave up
+	lastError: string;
+}
+
+// Wait after the 1st, 2nd, ... failed fetch: 1 hour up to a week
+const RETRY_DELAYS = [1, 6, 24, 72, 168].map(hours => hours * 60 * 60 * 1000);
+
+export function recordFailedAttempt(queue: Record<string, ContentRetryEntry>, id: number, url: string, title: string, error: string) {
+	const attempts = (queue[id]?.attempts ?? 0) + 1;
+	const delay = RETRY_DELAYS[attempts - 1];
+	queue[id] = {
+		url,
+		title,
+		attempts,
+		nextAttempt: delay === undefined ? 0 : Date.now() + delay,
+		lastError: error,
+	};
+}
+
+/**
+ * Ids of the entries to retry: the ones that are due, or all of them when
+ * `force` is set.
+ */
+export function getRetryIds(queue: Record<string, ContentRetryEntry>, force: boolean): number[] {
+	const now = Date.now();
+	return Object.keys(queue)
+		.filter(id => force || (queue[id].nextAttempt > 0 && queue[id].nextAttempt <= now))
+		.map(id => Number(id));
+}
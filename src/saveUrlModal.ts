@@ -0,0 +1,156 @@
+import { App, DropdownComponent, Modal, Setting } from 'obsidian';
+import { listCollectionPaths } from './collections';
+import { NewPinboxItem, PinboxCollection } from './pinboxApi';
+
+export interface SaveUrlDefaults {
+	url?: string;
+	title?: string;
+}
+
+class SaveUrlModal extends Modal {
+	private collections: Promise<PinboxCollection[]>;
+	private resolve: (item: NewPinboxItem | null) => void;
+	private item: NewPinboxItem | null = null;
+	private url: string;
+	private title: string;
+	private tags = '';
+	private note = '';
+	private collectionId = 0;
+
+	constructor(app: App, defaults: SaveUrlDefaults, collections: Promise<PinboxCollection[]>, resolve: (item: NewPinboxItem | null) => void) {
+		super(app);
+		this.url = defaults.url ?? '';
+		this.title = defaults.title ?? '';
+		this.collections = collections;
+		this.resolve = resolve;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText('保存到 Pinbox'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.modalEl.addClass('pinbox-save-url-modal');
+
+		new Setting(contentEl)
+			.setName('链接') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => {
+				text.setPlaceholder('https://example.com/article')
+					.setValue(this.url)
+					.onChange(value => {
+						this.url = value.trim();
+					});
+				text.inputEl.addClass('pinbox-save-url-input');
+				// Focus the first empty field
+				if (!this.url) {
+					window.setTimeout(() => text.inputEl.focus());
+				}
+			});
+
+		new Setting(contentEl)
+			.setName('标题') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.setValue(this.title)
+				.onChange(value => {
+					this.title = value.trim();
+				}));
+
+		new Setting(contentEl)
+			.setName('标签') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('以逗号分隔') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.onChange(value => {
+					this.tags = value;
+				}));
+
+		new Setting(contentEl)
+			.setName('收藏夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addDropdown(dropdown => {
+				dropdown.addOption('0', '默认收藏夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+					.onChange(value => {
+						this.collectionId = Number(value);
+					});
+				void this.loadCollections(dropdown);
+			});
+
+		new Setting(contentEl)
+			.setName('笔记') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addTextArea(text => {
+				text.onChange(value => {
+					this.note = value;
+				});
+				text.inputEl.rows = 4;
+				text.inputEl.addClass('pinbox-save-url-note');
+			});
+
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+		buttonContainer.createEl('button', {
+			text: '取消' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}).addEventListener('click', () => this.close());
+
+		buttonContainer.createEl('button', {
+			text: '保存', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			cls: 'mod-cta'
+		}).addEventListener('click', () => this.submit());
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.item);
+	}
+
+	private submit() {
+		if (!isWebUrl(this.url)) {
+			this.showError('请输入以 http:// 或 https:// 开头的链接'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		const tags = this.tags.split(/[,，]/).map(tag => tag.replace(/^#/, '').trim()).filter(tag => tag);
+		this.item = {
+			url: this.url,
+			...(this.title ? { title: this.title } : {}),
+			...(this.note.trim() ? { note: this.note.trim() } : {}),
+			...(tags.length > 0 ? { tags } : {}),
+			...(this.collectionId ? { collection_id: this.collectionId } : {}),
+		};
+		this.close();
+	}
+
+	private showError(message: string) {
+		this.contentEl.querySelector('.pinbox-save-url-error')?.remove();
+		this.contentEl.createEl('p', { text: message, cls: 'pinbox-save-url-error' });
+	}
+
+	// Collections are listed by path, e.g. "阅读 / AI"
+	private async loadCollections(dropdown: DropdownComponent) {
+		let collections: PinboxCollection[];
+		try {
+			collections = await this.collections;
+		} catch (error) {
+			console.error('[PinboxSyncer] Error loading collections:', error);
+			return;
+		}
+
+		for (const { id, path } of listCollectionPaths(collections)) {
+			dropdown.addOption(String(id), path);
+		}
+	}
+}
+
+export function isWebUrl(value: string): boolean {
+	try {
+		const { protocol } = new URL(value);
+		return protocol === 'http:' || protocol === 'https:';
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Ask for the link to save and its title, tags, collection and note.
+ * `collections` fills the collection picker once it resolves. Resolves to null
+ * when the modal is cancelled or closed.
+ */
+export function promptSaveUrl(app: App, defaults: SaveUrlDefaults, collections: Promise<PinboxCollection[]>): Promise<NewPinboxItem | null> {
+	return new Promise(resolve => {
+		new SaveUrlModal(app, defaults, collections, resolve).open();
+	});
+}
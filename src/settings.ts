@@ -1,14 +1,68 @@
+import { SnapshotImageMode } from './htmlSnapshot';
+import { CompressFormat } from './imageFormat';
+import { DeletionEntry } from './deletionQueue';
+import { ImageIndex, createImageIndex } from './imageStore';
+import { ContentRetryEntry } from './retryQueue';
+import { ConflictStrategy } from './twoWaySync';
+import { SyncLedgerEntry } from './syncLedger';
+import { SyncReport } from './syncReport';
+
+// What to do with a note whose item was deleted in Pinbox
+export type RemoteDeletionPolicy = 'keep' | 'mark' | 'archive' | 'trash';
+
 export interface PinboxSyncerSettings {
 	accessToken: string;
 	syncFolder: string;
 	autoSync: boolean;
 	syncInterval: number; // in minutes
+	fullSyncInterval: number; // in hours, 0 disables periodic full syncs
 	lastSyncTime: number;
+	lastFullSyncTime: number;
 	enableDataviewIndex: boolean;
 	dataviewIndexPath: string;
 	firstRun: boolean;
 	downloadImages: boolean;
 	imageFolder: string;
+	maxImageSize: number; // in KB, 0 for no limit
+	minImageDimension: number; // in pixels, smaller images (tracking pixels, icons) are not downloaded
+	maxImagesPerArticle: number; // 0 for no limit
+	compressImages: boolean; // re-encode large images through a canvas
+	compressFormat: CompressFormat;
+	compressMaxDimension: number; // in pixels, larger images are scaled down when compressing
+	saveHtmlSnapshot: boolean; // single-file HTML copy of each article in imageFolder/<id>/
+	snapshotImages: SnapshotImageMode;
+	refetchContentOnUpdate: boolean;
+	pushLocalEdits: boolean; // send title, tag and note edits made in the vault to Pinbox
+	conflictStrategy: ConflictStrategy;
+	apiConcurrency: number; // parallel Pinbox API requests
+	webConcurrency: number; // parallel article and image downloads
+	webHostInterval: number; // in milliseconds, between two requests to the same site
+	fileNamePattern: string;
+	excludedCollectionIds: number[]; // 0 is the default collection
+	includeItemTypes: string[];
+	excludeItemTypes: string[];
+	includeTags: string[];
+	excludeTags: string[];
+	createdAfter: string; // YYYY-MM-DD, empty for no cutoff
+	collectionFolders: boolean; // mirror the Pinbox collection hierarchy as subfolders
+	moveItemsWithNotes: boolean; // moving a note to another collection folder moves the item in Pinbox
+	collectionNotes: boolean; // generate one MOC note per collection
+	collectionNoteFolder: string;
+	noteTemplate: string; // empty means the built-in template
+	noteTemplatePath: string; // vault file, takes precedence over noteTemplate
+	contentFallbackTemplate: string; // empty means the built-in warning
+	remoteDeletionPolicy: RemoteDeletionPolicy;
+	archiveFolder: string;
+	softDelete: boolean; // deleting keeps the note restorable and delays the Pinbox delete
+	deleteGracePeriod: number; // in hours
+	writeSyncLog: boolean;
+	syncLogPath: string;
+	syncReports: SyncReport[]; // oldest first
+	syncLedger: Record<string, SyncLedgerEntry>;
+	contentRetryQueue: Record<string, ContentRetryEntry>;
+	deletionQueue: Record<string, DeletionEntry>;
+	imageIndex: ImageIndex;
+	collectionPaths: Record<string, string>; // collection id -> "Parent/Child" as of the last sync
 }
 
 export const DEFAULT_SETTINGS: PinboxSyncerSettings = {
@@ -16,10 +70,52 @@ export const DEFAULT_SETTINGS: PinboxSyncerSettings = {
 	syncFolder: 'Pinbox',
 	autoSync: false,
 	syncInterval: 60,
+	fullSyncInterval: 24,
 	lastSyncTime: 0,
+	lastFullSyncTime: 0,
 	enableDataviewIndex: false, // Will be set on first run based on Dataview availability
 	dataviewIndexPath: 'Pinbox/!Pinbox Index.md',
 	firstRun: true,
 	downloadImages: false,
-	imageFolder: 'Pinbox/pics'
+	imageFolder: 'Pinbox/pics',
+	maxImageSize: 0,
+	minImageDimension: 32,
+	maxImagesPerArticle: 0,
+	compressImages: false,
+	compressFormat: 'webp',
+	compressMaxDimension: 2048,
+	saveHtmlSnapshot: false,
+	snapshotImages: 'inline',
+	refetchContentOnUpdate: false,
+	pushLocalEdits: false,
+	conflictStrategy: 'ask',
+	apiConcurrency: 3,
+	webConcurrency: 4,
+	webHostInterval: 1000,
+	fileNamePattern: '{{title}}',
+	excludedCollectionIds: [],
+	includeItemTypes: [],
+	excludeItemTypes: [],
+	includeTags: [],
+	excludeTags: [],
+	createdAfter: '',
+	collectionFolders: false,
+	moveItemsWithNotes: false,
+	collectionNotes: false,
+	collectionNoteFolder: 'Pinbox/Collections',
+	noteTemplate: '',
+	noteTemplatePath: '',
+	contentFallbackTemplate: '',
+	remoteDeletionPolicy: 'keep',
+	archiveFolder: 'Pinbox/Archive',
+	softDelete: false,
+	deleteGracePeriod: 24,
+	writeSyncLog: false,
+	syncLogPath: 'Pinbox/_sync-log.md',
+	syncReports: [],
+	syncLedger: {},
+	contentRetryQueue: {},
+	deletionQueue: {},
+	imageIndex: createImageIndex(),
+	collectionPaths: {}
 }
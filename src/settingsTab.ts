@@ -1,6 +1,15 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, PluginSettingTab, Setting, TextAreaComponent } from 'obsidian';
 import PinboxSyncerPlugin from '../main';
 import { PinboxAuthModal } from './authModal';
+import { PinboxCollection } from './pinboxApi';
+import { SnapshotImageMode } from './htmlSnapshot';
+import { CompressFormat } from './imageFormat';
+import { DEFAULT_SETTINGS, RemoteDeletionPolicy } from './settings';
+import { DEFAULT_CONTENT_FALLBACK_TEMPLATE, DEFAULT_NOTE_TEMPLATE, getTemplateFrontmatterKeys } from './noteTemplate';
+import { ConflictStrategy } from './twoWaySync';
+
+type NumberSettingKey = 'apiConcurrency' | 'webConcurrency' | 'webHostInterval'
+	| 'maxImageSize' | 'minImageDimension' | 'maxImagesPerArticle' | 'compressMaxDimension' | 'deleteGracePeriod';
 
 interface AppWithPlugins {
 	plugins: {
@@ -93,6 +102,126 @@ export class PinboxSettingTab extends PluginSettingTab {
 					}
 				}));
 
+		new Setting(containerEl)
+			.setName('完整同步间隔') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('平时只拉取上次同步后新增的书签，每隔这么多小时做一次完整同步（0 表示只在手动执行完整同步命令时进行）') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.setPlaceholder('24')
+				.setValue(String(this.plugin.settings.fullSyncInterval))
+				.onChange(async (value) => {
+					const interval = parseInt(value);
+					if (!isNaN(interval) && interval >= 0) {
+						this.plugin.settings.fullSyncInterval = interval;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName('更新时重新抓取网页内容') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('书签在 Pinbox 中被修改后，更新笔记时是否重新抓取网页正文（关闭时保留笔记中已有的正文）') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.refetchContentOnUpdate)
+				.onChange(async (value) => {
+					this.plugin.settings.refetchContentOnUpdate = value;
+					await this.plugin.saveSettings();
+				}));
+
+		// /skip I need use Chinese due to the majority of the target users is Chinese.
+		new Setting(containerEl)
+			.setName('同步笔记中的修改到 Pinbox') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('同步时把在笔记中修改的标题、标签和「## 笔记」部分写回 Pinbox。增量同步只能发现 Pinbox 中较新书签的修改') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.pushLocalEdits)
+				.onChange(async (value) => {
+					this.plugin.settings.pushLocalEdits = value;
+					await this.plugin.saveSettings();
+					conflictStrategySetting.settingEl.toggle(value);
+				}));
+
+		// /skip I need use Chinese due to the majority of the target users is Chinese.
+		const conflictStrategySetting = new Setting(containerEl)
+			.setName('修改冲突时') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('同一项内容在笔记和 Pinbox 中都被修改过时保留哪一边') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addDropdown(dropdown => dropdown
+				.addOption('ask', '每次询问') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.addOption('remote', '使用 Pinbox 的版本') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.addOption('local', '保留笔记中的修改') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.setValue(this.plugin.settings.conflictStrategy)
+				.onChange(async (value) => {
+					this.plugin.settings.conflictStrategy = value as ConflictStrategy;
+					await this.plugin.saveSettings();
+				}));
+		conflictStrategySetting.settingEl.toggle(this.plugin.settings.pushLocalEdits);
+
+		new Setting(containerEl)
+			.setName('Pinbox 中已删除的书签') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('完整同步时发现书签已在 Pinbox 中删除后，如何处理对应的笔记') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addDropdown(dropdown => dropdown
+				.addOption('keep', '保留笔记') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.addOption('mark', '标记为 deleted_remotely') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.addOption('archive', '标记并移动到归档文件夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.addOption('trash', '移到回收站（包括图片文件夹）') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.setValue(this.plugin.settings.remoteDeletionPolicy)
+				.onChange(async (value) => {
+					this.plugin.settings.remoteDeletionPolicy = value as RemoteDeletionPolicy;
+					await this.plugin.saveSettings();
+					archiveFolderSetting.settingEl.toggle(value === 'archive');
+				}));
+
+		const archiveFolderSetting = new Setting(containerEl)
+			.setName('归档文件夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('已在 Pinbox 中删除的书签笔记会被移动到这里') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.archiveFolder)
+				.setValue(this.plugin.settings.archiveFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.archiveFolder = value || DEFAULT_SETTINGS.archiveFolder;
+					await this.plugin.saveSettings();
+				}));
+		archiveFolderSetting.settingEl.toggle(this.plugin.settings.remoteDeletionPolicy === 'archive');
+
+		// /skip I need use Chinese due to the majority of the target users is Chinese.
+		new Setting(containerEl)
+			.setName('可撤销的删除') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('删除书签时先把笔记和图片移到 .pinbox-trash，等待一段时间后再从 Pinbox 删除，在此之前可以用命令"Restore deleted Pinbox item"恢复') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.softDelete)
+				.onChange(async (value) => {
+					this.plugin.settings.softDelete = value;
+					await this.plugin.saveSettings();
+					gracePeriodSetting.settingEl.toggle(value);
+				}));
+
+		const gracePeriodSetting = this.addNumberSetting(containerEl, '延迟删除时间', '删除后等待多久再从 Pinbox 删除（小时，0 为下次检查时立即删除，默认: 24）', 'deleteGracePeriod', 0); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		gracePeriodSetting.settingEl.toggle(this.plugin.settings.softDelete);
+
+		this.addNumberSetting(containerEl, 'Pinbox 请求并发数', '同时进行的 Pinbox API 请求数（默认: 3）', 'apiConcurrency', 1); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addNumberSetting(containerEl, '网页抓取并发数', '同时抓取的网页和图片数（默认: 4）', 'webConcurrency', 1); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addNumberSetting(containerEl, '同一网站请求间隔', '对同一网站两次请求之间的最小间隔（毫秒，默认: 1000）', 'webHostInterval', 0); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+		new Setting(containerEl)
+			.setName('写入同步日志') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('每次同步后把同步报告（新增、更新和失败的书签及原因）写入一篇笔记') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.writeSyncLog)
+				.onChange(async (value) => {
+					this.plugin.settings.writeSyncLog = value;
+					await this.plugin.saveSettings();
+					syncLogPathSetting.settingEl.toggle(value);
+				}));
+
+		const syncLogPathSetting = new Setting(containerEl)
+			.setName('同步日志路径') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('同步日志笔记的保存位置') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.setPlaceholder('Pinbox/_sync-log.md')
+				.setValue(this.plugin.settings.syncLogPath)
+				.onChange(async (value) => {
+					this.plugin.settings.syncLogPath = value || 'Pinbox/_sync-log.md';
+					await this.plugin.saveSettings();
+				}));
+		syncLogPathSetting.settingEl.toggle(this.plugin.settings.writeSyncLog);
+
 		if (this.plugin.settings.lastSyncTime > 0) {
 			const lastSync = new Date(this.plugin.settings.lastSyncTime);
 			new Setting(containerEl)
@@ -110,6 +239,199 @@ export class PinboxSettingTab extends PluginSettingTab {
 					await this.plugin.syncBookmarks();
 				}));
 
+		const retrySetting = new Setting(containerEl)
+			.setName('待重试的网页内容') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addButton(button => button
+				.setButtonText('立即重试') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.onClick(async () => {
+					await this.plugin.retryFailedContent();
+					updateRetryCount();
+				}));
+		const updateRetryCount = () => {
+			const retryCount = Object.keys(this.plugin.settings.contentRetryQueue).length;
+			retrySetting.setDesc(`${retryCount} 个书签的网页内容获取失败，之后的同步会按 1 小时到 1 周的间隔自动重试`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			retrySetting.settingEl.toggle(retryCount > 0);
+		};
+		updateRetryCount();
+
+		// Selective sync
+		new Setting(containerEl).setName("选择性同步").setHeading(); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+		const collectionsEl = containerEl.createDiv({ cls: 'pinbox-collection-list' });
+		if (isLoggedIn) {
+			void this.displayCollections(collectionsEl);
+		} else {
+			collectionsEl.createEl('p', { text: '登录后可选择要同步的收藏夹', cls: 'pinbox-collection-hint' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+
+		this.addListSetting(containerEl, '只同步这些类型', '以逗号分隔的 item_type，例如 website, text；留空表示全部', 'includeItemTypes'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addListSetting(containerEl, '排除这些类型', '以逗号分隔的 item_type', 'excludeItemTypes'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addListSetting(containerEl, '只同步带有这些标签的书签', '以逗号分隔，满足任意一个即可；留空表示全部', 'includeTags'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addListSetting(containerEl, '排除带有这些标签的书签', '以逗号分隔', 'excludeTags'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+		new Setting(containerEl)
+			.setName('只同步此日期之后创建的书签') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('格式如 2024-01-31，留空表示不限制') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.setPlaceholder('2024-01-01')
+				.setValue(this.plugin.settings.createdAfter)
+				.onChange(async (value) => {
+					const trimmed = value.trim();
+					if (trimmed === '' || /^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+						this.plugin.settings.createdAfter = trimmed;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		// File name and folder layout
+		new Setting(containerEl).setName("文件名与文件夹").setHeading(); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+		new Setting(containerEl)
+			.setName('文件名规则') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('新笔记的文件名，支持模板变量，例如 {{created_at:YYYY-MM-DD}} {{title}} 或 {{id}}') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.setPlaceholder('{{title}}')
+				.setValue(this.plugin.settings.fileNamePattern)
+				.onChange(async (value) => {
+					this.plugin.settings.fileNamePattern = value || '{{title}}';
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('按收藏夹建立子文件夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('按照 Pinbox 中的收藏夹层级在同步文件夹下创建子文件夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.collectionFolders)
+				.onChange(async (value) => {
+					this.plugin.settings.collectionFolders = value;
+					await this.plugin.saveSettings();
+					moveItemsSetting.settingEl.toggle(value);
+				}));
+
+		// /skip I need use Chinese due to the majority of the target users is Chinese.
+		const moveItemsSetting = new Setting(containerEl)
+			.setName('移动笔记时同步移动书签') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('在 Obsidian 中把笔记移动到另一个收藏夹的文件夹后，在 Pinbox 中也把书签移到该收藏夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.moveItemsWithNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.moveItemsWithNotes = value;
+					await this.plugin.saveSettings();
+				}));
+		moveItemsSetting.settingEl.toggle(this.plugin.settings.collectionFolders);
+
+		new Setting(containerEl)
+			.setName('生成收藏夹笔记') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('为每个收藏夹生成一篇索引笔记，书签笔记的 collection_note 字段会链接到它') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.collectionNotes)
+				.onChange(async (value) => {
+					this.plugin.settings.collectionNotes = value;
+					await this.plugin.saveSettings();
+					collectionNoteFolderSetting.settingEl.toggle(value);
+				}));
+
+		const collectionNoteFolderSetting = new Setting(containerEl)
+			.setName('收藏夹笔记文件夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('收藏夹笔记按层级保存在此文件夹下') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.collectionNoteFolder)
+				.setValue(this.plugin.settings.collectionNoteFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.collectionNoteFolder = value || DEFAULT_SETTINGS.collectionNoteFolder;
+					await this.plugin.saveSettings();
+				}));
+		collectionNoteFolderSetting.settingEl.toggle(this.plugin.settings.collectionNotes);
+
+		new Setting(containerEl)
+			.setName('迁移现有笔记') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('修改文件名规则或文件夹布局后，将已同步的笔记移动到新位置（新规则只影响之后创建的笔记）') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addButton(button => button
+				.setButtonText('迁移') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.onClick(async () => {
+					await this.plugin.relocateNotes();
+				}));
+
+		// Note template settings
+		new Setting(containerEl).setName("笔记模板").setHeading(); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+		const templateHelp = containerEl.createDiv({ cls: 'pinbox-template-help' });
+		templateHelp.createEl('p', {
+			text: '可用变量: {{id}} {{title}} {{url}} {{item_type}} {{created_at}} {{tags}} {{collection}} {{collection_name}} {{collection_path}} {{collection_note}} {{collection_id}} {{view}} {{brief}} {{description}} {{note}} {{image}} {{author}} {{published}} {{site_name}} {{canonical_url}} {{lang}} {{word_count}} {{snapshot}} {{synced_at}} {{content}}' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		});
+		templateHelp.createEl('p', {
+			text: '过滤器: {{created_at|date:YYYY-MM-DD}} {{title|yaml}} {{tags|join:, }}；条件: {{#if note}}...{{else}}...{{/if}}。frontmatter 中必须保留 id 字段，{{content}} 只能出现一次。' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		});
+
+		new Setting(containerEl)
+			.setName('模板文件') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('使用 vault 中的文件作为模板（相对于 vault 根目录），留空则使用下方的模板') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.setPlaceholder('Templates/Pinbox.md')
+				.setValue(this.plugin.settings.noteTemplatePath)
+				.onChange(async (value) => {
+					this.plugin.settings.noteTemplatePath = value;
+					await this.plugin.saveSettings();
+					void updatePreview();
+				}));
+
+		new Setting(containerEl)
+			.setName('笔记模板') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('生成书签笔记时使用的模板') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addButton(button => button
+				.setButtonText('恢复默认') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.onClick(async () => {
+					this.plugin.settings.noteTemplate = '';
+					await this.plugin.saveSettings();
+					templateText.setValue(DEFAULT_NOTE_TEMPLATE);
+					void updatePreview();
+				}));
+
+		let templateText: TextAreaComponent;
+		new Setting(containerEl)
+			.setClass('pinbox-template-setting')
+			.addTextArea(text => {
+				templateText = text;
+				text.inputEl.addClass('pinbox-template-textarea');
+				text
+					.setValue(this.plugin.settings.noteTemplate || DEFAULT_NOTE_TEMPLATE)
+					.onChange(async (value) => {
+						this.plugin.settings.noteTemplate = value === DEFAULT_NOTE_TEMPLATE ? '' : value;
+						await this.plugin.saveSettings();
+						void updatePreview();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('网页获取失败提示') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('无法抓取网页内容时代替 {{content}} 写入的内容，同样支持模板变量') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setClass('pinbox-template-setting')
+			.addTextArea(text => {
+				text.inputEl.addClass('pinbox-template-textarea');
+				text.inputEl.addClass('pinbox-template-textarea-small');
+				text
+					.setValue(this.plugin.settings.contentFallbackTemplate || DEFAULT_CONTENT_FALLBACK_TEMPLATE)
+					.onChange(async (value) => {
+						this.plugin.settings.contentFallbackTemplate = value === DEFAULT_CONTENT_FALLBACK_TEMPLATE ? '' : value;
+						await this.plugin.saveSettings();
+						void updatePreview();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName('模板预览') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('使用示例书签渲染当前模板'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		const previewWarning = containerEl.createEl('p', { cls: 'pinbox-template-warning' });
+		const previewEl = containerEl.createEl('pre', { cls: 'pinbox-template-preview' });
+		const updatePreview = async () => {
+			const template = await this.plugin.syncService.loadNoteTemplate();
+			previewWarning.setText(getTemplateFrontmatterKeys(template).includes('id')
+				? ''
+				: '⚠️ 模板的 frontmatter 中没有 id 字段，同步将无法识别已有笔记'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			previewEl.setText(this.plugin.syncService.renderNotePreview(template));
+		};
+		void updatePreview();
+
 		// Dataview Index settings
 		new Setting(containerEl).setName("Dataview 索引设置").setHeading(); // /skip I need use Chinese due to the majority of the target users is Chinese.
 
@@ -182,21 +504,170 @@ export class PinboxSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.downloadImages = value;
 					await this.plugin.saveSettings();
-					this.display(); // Refresh to show/hide image folder setting
+					updateImageSection();
 				}));
 
-		if (this.plugin.settings.downloadImages) {
-			// /skip I need use Chinese due to the majority of the target users is Chinese.
-			new Setting(containerEl)
-				.setName('图片文件夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
-				.setDesc('图片保存的文件夹路径（相对于 vault 根目录）') // /skip I need use Chinese due to the majority of the target users is Chinese.
-				.addText(text => text
-					.setPlaceholder('Pinbox/.pics')
-					.setValue(this.plugin.settings.imageFolder)
+		// /skip I need use Chinese due to the majority of the target users is Chinese.
+		new Setting(containerEl)
+			.setName('保存离线快照') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('抓取网页时把正文另存为一个独立的 HTML 文件，放在图片文件夹的书签子文件夹中，笔记的 snapshot 属性链接到它') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.saveHtmlSnapshot)
+				.onChange(async (value) => {
+					this.plugin.settings.saveHtmlSnapshot = value;
+					await this.plugin.saveSettings();
+					snapshotImagesSetting.settingEl.toggle(value);
+					updateImageSection();
+				}));
+
+		// /skip I need use Chinese due to the majority of the target users is Chinese.
+		const snapshotImagesSetting = new Setting(containerEl)
+			.setName('快照中的图片') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('内嵌：图片写进 HTML 文件，单个文件即可离线查看；本地：图片下载到快照旁边') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addDropdown(dropdown => dropdown
+				.addOption('inline', '内嵌到 HTML') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.addOption('local', '保存为本地文件') // /skip I need use Chinese due to the majority of the target users is Chinese.
+				.setValue(this.plugin.settings.snapshotImages)
+				.onChange(async (value) => {
+					this.plugin.settings.snapshotImages = value as SnapshotImageMode;
+					await this.plugin.saveSettings();
+				}));
+		snapshotImagesSetting.settingEl.toggle(this.plugin.settings.saveHtmlSnapshot);
+
+		// Image downloads and snapshots share the image settings
+		const imageSection = containerEl.createDiv();
+		const updateImageSection = () => {
+			imageSection.toggle(this.plugin.settings.downloadImages || this.plugin.settings.saveHtmlSnapshot);
+		};
+		updateImageSection();
+
+		// /skip I need use Chinese due to the majority of the target users is Chinese.
+		new Setting(imageSection)
+			.setName('图片文件夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('图片保存的文件夹路径（相对于 vault 根目录）') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addText(text => text
+				.setPlaceholder('Pinbox/.pics')
+				.setValue(this.plugin.settings.imageFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.imageFolder = value || 'Pinbox/.pics';
+					await this.plugin.saveSettings();
+				}));
+
+		this.addNumberSetting(imageSection, '单张图片大小上限', '超过此大小的图片不下载，保留原链接（KB，0 为不限制，默认: 0）', 'maxImageSize', 0); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addNumberSetting(imageSection, '最小图片尺寸', '宽或高小于此值的图片（跟踪像素、图标）不下载（像素，默认: 32）', 'minImageDimension', 0); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		this.addNumberSetting(imageSection, '每篇文章最多下载图片数', '超出的图片保留原链接（0 为不限制，默认: 0）', 'maxImagesPerArticle', 0); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+		// /skip I need use Chinese due to the majority of the target users is Chinese.
+		new Setting(imageSection)
+			.setName('压缩大图') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('把体积大的 PNG 和尺寸过大的图片重新编码并缩小后再保存，压缩后没有变小则保留原图') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.compressImages)
+				.onChange(async (value) => {
+					this.plugin.settings.compressImages = value;
+					await this.plugin.saveSettings();
+					compressSection.toggle(value);
+				}));
+
+		const compressSection = imageSection.createDiv();
+		compressSection.toggle(this.plugin.settings.compressImages);
+		// /skip I need use Chinese due to the majority of the target users is Chinese.
+		new Setting(compressSection)
+			.setName('压缩格式') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('WebP 体积更小并保留透明背景；JPEG 兼容性更好，透明部分会变成白色') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.addDropdown(dropdown => dropdown
+				.addOption('webp', 'WebP')
+				.addOption('jpeg', 'JPEG')
+				.setValue(this.plugin.settings.compressFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.compressFormat = value as CompressFormat;
+					await this.plugin.saveSettings();
+				}));
+		this.addNumberSetting(compressSection, '压缩后最大边长', '更大的图片会等比缩小到此尺寸（像素，0 为不缩小，默认: 2048）', 'compressMaxDimension', 0); // /skip I need use Chinese due to the majority of the target users is Chinese.
+	}
+
+	private addNumberSetting(containerEl: HTMLElement, name: string, desc: string, key: NumberSettingKey, min: number): Setting {
+		return new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => text
+				.setPlaceholder(String(DEFAULT_SETTINGS[key]))
+				.setValue(String(this.plugin.settings[key]))
+				.onChange(async (value) => {
+					const num = parseInt(value);
+					if (!isNaN(num) && num >= min) {
+						this.plugin.settings[key] = num;
+						await this.plugin.saveSettings();
+					}
+				}));
+	}
+
+	private addListSetting(containerEl: HTMLElement, name: string, desc: string, key: 'includeItemTypes' | 'excludeItemTypes' | 'includeTags' | 'excludeTags') {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => text
+				.setValue(this.plugin.settings[key].join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings[key] = value.split(/[,，]/).map(item => item.trim()).filter(item => item);
+					await this.plugin.saveSettings();
+				}));
+	}
+
+	private async displayCollections(containerEl: HTMLElement) {
+		const loadingEl = containerEl.createEl('p', { text: '正在加载收藏夹...', cls: 'pinbox-collection-hint' }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+		let collections: PinboxCollection[];
+		try {
+			collections = await this.plugin.api.getCollections();
+		} catch (error) {
+			console.error('[PinboxSettingTab] Error loading collections:', error);
+			loadingEl.setText('加载收藏夹失败，请检查登录状态'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return;
+		}
+		loadingEl.remove();
+
+		new Setting(containerEl)
+			.setName('同步的收藏夹') // /skip I need use Chinese due to the majority of the target users is Chinese.
+			.setDesc('取消勾选的收藏夹不会被同步，新建的收藏夹默认会同步'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+		// Children follow their parent, indented by depth
+		const byParent = new Map<number | null, PinboxCollection[]>();
+		const ids = new Set(collections.map(collection => collection.id));
+		for (const collection of collections) {
+			const parentId = collection.parent_id !== null && ids.has(collection.parent_id) ? collection.parent_id : null;
+			byParent.set(parentId, [...(byParent.get(parentId) ?? []), collection]);
+		}
+
+		const addRow = (id: number, name: string, depth: number) => {
+			const row = new Setting(containerEl)
+				.setName(name)
+				.addToggle(toggle => toggle
+					.setValue(!this.plugin.settings.excludedCollectionIds.includes(id))
 					.onChange(async (value) => {
-						this.plugin.settings.imageFolder = value || 'Pinbox/.pics';
+						const excluded = this.plugin.settings.excludedCollectionIds.filter(excludedId => excludedId !== id);
+						this.plugin.settings.excludedCollectionIds = value ? excluded : [...excluded, id];
 						await this.plugin.saveSettings();
 					}));
-		}
+			row.settingEl.addClass('pinbox-collection-item');
+			row.settingEl.style.setProperty('--pinbox-collection-depth', String(depth));
+			return row;
+		};
+
+		addRow(0, '默认收藏夹', 0); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+		const visited = new Set<number>();
+		const addChildren = (parentId: number | null, depth: number) => {
+			for (const collection of byParent.get(parentId) ?? []) {
+				if (visited.has(collection.id)) {
+					continue;
+				}
+				visited.add(collection.id);
+				addRow(collection.id, collection.name, depth)
+					.setDesc(`${collection.items_count} 个书签`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				addChildren(collection.id, depth + 1);
+			}
+		};
+		addChildren(null, 0);
 	}
 }
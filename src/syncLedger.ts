@@ -0,0 +1,69 @@
+import { PinboxBookmark } from './pinboxApi';
+import { FieldHashes } from './twoWaySync';
+
+/**
+ * One entry per synced Pinbox item, keyed by item id in settings.syncLedger.
+ * `hash` is the hash of the remote item data the note was generated from,
+ * so a later sync can tell whether the item changed in Pinbox.
+ */
+export interface SyncLedgerEntry {
+	path: string;
+	hash: string;
+	lastSeen: number;
+	// null for the default collection
+	collectionId?: number | null;
+	// The fields that sync back to Pinbox as Pinbox had them and as the note
+	// showed them after the last sync, see twoWaySync.ts
+	remoteFields?: FieldHashes;
+	localFields?: FieldHashes;
+	// The note's mtime when localFields were last checked against it, an
+	// unmodified note has no edits to send
+	localMtime?: number;
+}
+
+export function getTagNames(tags: PinboxBookmark['tags'] | undefined): string[] {
+	if (!tags) {
+		return [];
+	}
+
+	return tags.map(tag => {
+		if (typeof tag === 'string') {
+			return tag;
+		} else if (tag && tag.name) {
+			return tag.name;
+		}
+		return '';
+	}).filter(t => t);
+}
+
+// FNV-1a (32 bit). Not cryptographic, only used to detect changes.
+export function hashString(value: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * `collectionPath` is the resolved collection hierarchy, so renaming a
+ * collection in Pinbox counts as a change of its items.
+ */
+export function hashBookmark(bookmark: PinboxBookmark, collectionPath: string[] = []): string {
+	// `view` is left out on purpose: it changes on every visit and is not worth a rewrite
+	return hashString(JSON.stringify([
+		bookmark.title,
+		bookmark.url,
+		bookmark.description,
+		getTagNames(bookmark.tags),
+		bookmark.item_type,
+		bookmark.created_at,
+		bookmark.brief,
+		bookmark.note,
+		bookmark.thumbnail,
+		bookmark.cover,
+		bookmark.collection_id,
+		collectionPath,
+	]));
+}
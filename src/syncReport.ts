@@ -0,0 +1,176 @@
+// Reports kept in plugin data and shown in the sync log note
+export const MAX_SYNC_REPORTS = 20;
+// Created and updated items listed per report, failures are always kept
+const MAX_REPORT_ITEMS = 200;
+
+export type SyncReportStatus = 'completed' | 'cancelled' | 'failed';
+
+// Where a failure happened: listing a collection, fetching an article,
+// downloading an image, saving the HTML snapshot, writing the note or sending
+// a note's edits to Pinbox
+export type SyncFailureStage = 'collection' | 'content' | 'image' | 'snapshot' | 'note' | 'push';
+
+const STAGE_LABELS: Record<SyncFailureStage, string> = {
+	collection: '收藏夹', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	content: '网页内容', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	image: '图片', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	snapshot: '离线快照', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	note: '笔记', // /skip I need use Chinese due to the majority of the target users is Chinese.
+	push: '同步到 Pinbox', // /skip I need use Chinese due to the majority of the target users is Chinese.
+};
+
+export interface SyncReportItem {
+	id: number;
+	title: string;
+	path?: string;
+}
+
+export interface SyncReportFailure {
+	stage: SyncFailureStage;
+	reason: string;
+	// Item id and title, or the collection for a 'collection' failure
+	id?: number;
+	title: string;
+	path?: string;
+	url?: string;
+}
+
+export interface SyncReport {
+	startedAt: number;
+	finishedAt: number;
+	full: boolean;
+	status: SyncReportStatus;
+	error?: string;
+	created: SyncReportItem[];
+	updated: SyncReportItem[];
+	// Items whose note edits were sent to Pinbox, missing in older reports
+	pushed?: SyncReportItem[];
+	createdCount: number;
+	updatedCount: number;
+	pushedCount?: number;
+	skippedCount: number;
+	removedCount: number;
+	failures: SyncReportFailure[];
+}
+
+export function createSyncReport(full: boolean): SyncReport {
+	return {
+		startedAt: Date.now(),
+		finishedAt: 0,
+		full,
+		status: 'completed',
+		created: [],
+		updated: [],
+		pushed: [],
+		createdCount: 0,
+		updatedCount: 0,
+		pushedCount: 0,
+		skippedCount: 0,
+		removedCount: 0,
+		failures: [],
+	};
+}
+
+export function addReportItem(report: SyncReport, result: 'created' | 'updated' | 'pushed', item: SyncReportItem) {
+	if (result === 'pushed') {
+		report.pushedCount = (report.pushedCount ?? 0) + 1;
+		report.pushed = report.pushed ?? [];
+		if (report.pushed.length < MAX_REPORT_ITEMS) {
+			report.pushed.push(item);
+		}
+	} else if (result === 'created') {
+		report.createdCount++;
+		if (report.created.length < MAX_REPORT_ITEMS) {
+			report.created.push(item);
+		}
+	} else {
+		report.updatedCount++;
+		if (report.updated.length < MAX_REPORT_ITEMS) {
+			report.updated.push(item);
+		}
+	}
+}
+
+/**
+ * Failed items of the report, counting an item once even when both its article
+ * and some of its images failed.
+ */
+export function getFailedItemCount(report: SyncReport): number {
+	const ids = new Set<number>();
+	let others = 0;
+	for (const failure of report.failures) {
+		if (failure.id !== undefined) {
+			ids.add(failure.id);
+		} else {
+			others++;
+		}
+	}
+	return ids.size + others;
+}
+
+/**
+ * The sync log note: the newest report first. The whole note is regenerated
+ * after every sync from the reports in plugin data.
+ */
+export function renderSyncLog(reports: SyncReport[]): string {
+	const lines: string[] = [
+		'# Pinbox 同步日志', // /skip I need use Chinese due to the majority of the target users is Chinese.
+		'',
+		'> 此文件在每次同步后自动重新生成，请不要在这里记笔记。', // /skip I need use Chinese due to the majority of the target users is Chinese.
+		'',
+	];
+
+	for (const report of [...reports].reverse()) {
+		lines.push(...renderReport(report), '');
+	}
+
+	return lines.join('\n');
+}
+
+function renderReport(report: SyncReport): string[] {
+	const kind = report.full ? '完整同步' : '增量同步'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+	const status = { completed: '完成', cancelled: '已取消', failed: '失败' }[report.status]; // /skip I need use Chinese due to the majority of the target users is Chinese.
+	const seconds = Math.max(0, Math.round((report.finishedAt - report.startedAt) / 1000));
+
+	const lines = [
+		`## ${new Date(report.startedAt).toLocaleString('zh-CN')} · ${kind} · ${status}`,
+		'',
+		`新增 ${report.createdCount} · 更新 ${report.updatedCount} · 跳过 ${report.skippedCount} · 失败 ${getFailedItemCount(report)} · 远程删除 ${report.removedCount}${report.pushedCount ? ` · 同步到 Pinbox ${report.pushedCount}` : ''} · 耗时 ${seconds} 秒`, // /skip I need use Chinese due to the majority of the target users is Chinese.
+	];
+
+	if (report.error) {
+		lines.push('', `> [!error] ${report.error}`);
+	}
+
+	if (report.failures.length > 0) {
+		lines.push('', '### 失败', ''); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		for (const failure of report.failures) {
+			const url = failure.url ? ` <${failure.url}>` : '';
+			lines.push(`- ${STAGE_LABELS[failure.stage]}：${formatItem(failure)}：${failure.reason}${url}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+	}
+
+	for (const [title, items, count] of [['新增', report.created, report.createdCount], ['更新', report.updated, report.updatedCount], ['同步到 Pinbox', report.pushed ?? [], report.pushedCount ?? 0]] as const) { // /skip I need use Chinese due to the majority of the target users is Chinese.
+		if (items.length === 0) {
+			continue;
+		}
+		lines.push('', `### ${title}`, '');
+		for (const item of items) {
+			lines.push(`- ${formatItem(item)}`);
+		}
+		if (count > items.length) {
+			lines.push(`- ……以及另外 ${count - items.length} 个`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+	}
+
+	return lines;
+}
+
+function formatItem(item: { title: string; path?: string }): string {
+	// Brackets and pipes would break the wikilink alias
+	const title = item.title.replace(/[[\]|]/g, ' ').replace(/\s+/g, ' ').trim() || 'Untitled';
+	if (!item.path) {
+		return title;
+	}
+	return `[[${item.path.replace(/\.md$/, '')}|${title}]]`;
+}
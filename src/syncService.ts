@@ -1,78 +1,403 @@
-import { App, Notice, TFile, normalizePath, requestUrl } from 'obsidian';
-import { PinboxAPI, PinboxBookmark } from './pinboxApi';
+import { App, Notice, TAbstractFile, TFile, TFolder, arrayBufferToBase64, normalizePath, parseYaml } from 'obsidian';
+import { PinboxAPI, PinboxBookmark, PinboxCollection, parsePinboxDate } from './pinboxApi';
+import { ConflictResolution, EditConflict, EditableValues, compareEdits, getRemoteValues, hashEditableValues, readNoteValues } from './twoWaySync';
+import { RequestCancelledError, RequestScheduler, getHeader, mapConcurrent, throwIfCancelled } from './requestScheduler';
+import { PinboxSyncerSettings } from './settings';
+import { getRetryIds, recordFailedAttempt } from './retryQueue';
+import { DeletionEntry, TOMBSTONE_FILE_NAME, Tombstone, getDueDeletions, getTrashPath } from './deletionQueue';
+import { getTagNames, hashBookmark } from './syncLedger';
+import { MAX_SYNC_REPORTS, SyncReport, SyncReportFailure, SyncReportStatus, addReportItem, createSyncReport, getFailedItemCount, renderSyncLog } from './syncReport';
+import { DEFAULT_CONTENT_FALLBACK_TEMPLATE, DEFAULT_NOTE_TEMPLATE, SAMPLE_BOOKMARK, SAMPLE_COLLECTION, SAMPLE_METADATA, TemplateContext, getTemplateFrontmatterKeys, renderTemplate } from './noteTemplate';
+import { ArticleMetadata, countWords, extractArticleMetadata, getMetadataContext, mergeMetadata, readArticleMetadata } from './articleMetadata';
+import { extractContent } from './contentExtractors';
+import { getAvailableNotePath } from './notePaths';
+import { checkImageLimits, compressImage, getImageMimeType, isImageExtension, shouldCompress, sniffImage } from './imageFormat';
+import { addImageReference, findImageByUrl, forgetImagePaths, hashContent, releaseItemImages } from './imageStore';
+import { SNAPSHOT_FILE_NAME, prepareSnapshotRoot, renderSnapshot } from './htmlSnapshot';
+import { ContentKind, getContentKind, getImageExtension, getTextItemContent, parseVideoMetadata, parseVideoUrl } from './itemKinds';
 import TurndownService from 'turndown';
 
+// Everything between the frontmatter and this line is rewritten when the item
+// changes in Pinbox; anything the user writes below it is kept as is.
+const USER_CONTENT_MARKER = '%% pinbox-user-content：此行以下的内容在同步时保留 %%'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+const USER_CONTENT_MARKER_REGEX = /^%% pinbox-user-content\b.*%%[ \t]*$/m;
+
+// Wrap the fetched web content so an update can keep it without re-fetching
+const CONTENT_START_MARKER = '%% pinbox-content-start %%';
+const CONTENT_END_MARKER = '%% pinbox-content-end %%';
+
+type SyncResult = 'created' | 'updated' | 'skipped';
+
+// What the attachment cleanup found in the image folder
+export interface OrphanedAttachments {
+	// imageFolder/<id> of items that have no note any more
+	folders: TFolder[];
+	// Images no note links to and no item of the image index with a note uses
+	files: TFile[];
+	size: number; // in bytes
+}
+
+// Where a soft-deleted note waits in its trash folder
+const NOTE_IN_TRASH = 'note.md';
+
+// A note of a Pinbox item, for the bulk commands
+export interface PinboxNote {
+	file: TFile;
+	id: number;
+}
+
+// An image ready to be stored or inlined
+interface PreparedImage {
+	data: ArrayBuffer;
+	extension: string;
+	mimeType: string;
+}
+
+// The page as Markdown and what it says about itself, or why it couldn't be fetched
+export interface WebContentResult {
+	content: string | null;
+	error: string | null;
+	metadata?: ArticleMetadata;
+	// The fetched HTML, for the snapshot
+	html?: string;
+}
+
+export type SyncPhase = 'collections' | 'items' | 'push' | 'notes' | 'deletions';
+
+export interface SyncProgress {
+	phase: SyncPhase;
+	itemsFetched: number;
+	// Items written or skipped, out of `total` that passed the filters
+	processed: number;
+	total: number;
+	articlesFetched: number;
+	imagesDownloaded: number;
+	imagesTotal: number;
+}
+
+// The current content block of a note and what its page returns now
+export interface RefetchResult extends WebContentResult {
+	id: number;
+	current: string;
+}
+
+export interface SyncOutcome {
+	syncedCount: number;
+	// False when a collection failed to load, its new items may be missing
+	complete: boolean;
+}
+
+export interface SyncOptions {
+	// Aborting stops the sync after the work already in flight
+	signal?: AbortSignal;
+	onProgress?: (progress: SyncProgress) => void;
+	// Asked when a field was edited in the note and in Pinbox and the conflict
+	// strategy is 'ask'
+	resolveConflict?: (conflict: EditConflict) => Promise<ConflictResolution>;
+}
+
 export class SyncService {
 	private app: App;
 	private api: PinboxAPI;
-	private syncFolder: string;
-	private downloadImages: boolean;
-	private imageFolder: string;
-
-	constructor(app: App, api: PinboxAPI, syncFolder: string, downloadImages: boolean = false, imageFolder: string = 'pics') {
+	private settings: PinboxSyncerSettings;
+	private scheduler: RequestScheduler;
+	// Pinbox id -> note, built lazily from the metadata cache once per sync
+	private noteIndex: Map<number, TFile> | null = null;
+	// Loaded once per sync, see getNoteTemplate()
+	private noteTemplate: string | null = null;
+	private collections = new Map<number, PinboxCollection>();
+	// Note paths handed out during this sync but possibly not created yet
+	private reservedPaths = new Set<string>();
+	// Options and progress of the running sync
+	private signal: AbortSignal | undefined;
+	private onProgress: SyncOptions['onProgress'];
+	private progress: SyncProgress = SyncService.emptyProgress();
+	private report: SyncReport | null = null;
+
+	constructor(app: App, api: PinboxAPI, settings: PinboxSyncerSettings, scheduler: RequestScheduler) {
 		this.app = app;
 		this.api = api;
-		this.syncFolder = syncFolder;
-		this.downloadImages = downloadImages;
-		this.imageFolder = imageFolder;
+		this.settings = settings;
+		this.scheduler = scheduler;
+	}
+
+	private get syncFolder(): string {
+		return this.settings.syncFolder;
+	}
+
+	private get downloadImages(): boolean {
+		return this.settings.downloadImages;
 	}
 
-	setSyncFolder(folder: string) {
-		this.syncFolder = folder;
+	private get imageFolder(): string {
+		return this.settings.imageFolder;
 	}
 
-	setDownloadImages(downloadImages: boolean) {
-		this.downloadImages = downloadImages;
+	private static emptyProgress(): SyncProgress {
+		return { phase: 'collections', itemsFetched: 0, processed: 0, total: 0, articlesFetched: 0, imagesDownloaded: 0, imagesTotal: 0 };
 	}
 
-	setImageFolder(imageFolder: string) {
-		this.imageFolder = imageFolder;
+	private reportProgress(changes: Partial<SyncProgress>) {
+		this.progress = { ...this.progress, ...changes };
+		this.onProgress?.(this.progress);
 	}
 
-	async sync(): Promise<number> {
+	/**
+	 * Sync bookmarks into the vault. With `since` set, only items created after
+	 * that time are fetched (incremental sync); 0 fetches everything.
+	 * Throws RequestCancelledError when cancelled through `options.signal`.
+	 */
+	async sync(since: number = 0, options: SyncOptions = {}): Promise<SyncOutcome> {
 		console.debug('[SyncService] Starting sync process...');
+		this.report = createSyncReport(since === 0);
+		let status: SyncReportStatus = 'completed';
+		let errorMessage: string | undefined;
 		try {
-			new Notice('开始同步 Pinbox 书签...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			new Notice(since > 0 ? '开始增量同步 Pinbox 书签...' : '开始同步 Pinbox 书签...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+			this.noteIndex = null;
+			this.noteTemplate = null;
+			this.reservedPaths.clear();
+			this.signal = options.signal;
+			this.onProgress = options.onProgress;
+			this.progress = SyncService.emptyProgress();
+			this.reportProgress({ phase: 'collections' });
 
 			// Ensure sync folder exists
 			console.debug('[SyncService] Ensuring sync folder exists:', this.syncFolder);
 			await this.ensureFolderExists(this.syncFolder);
 
+			// Soft-deleted items whose grace period is over
+			try {
+				await this.runDeletionQueue(false);
+			} catch (error) {
+				if (error instanceof RequestCancelledError) {
+					throw error;
+				}
+				console.error('[SyncService] Error running queued deletions:', error);
+			}
+
 			// Fetch all bookmarks
 			console.debug('[SyncService] Fetching all bookmarks...');
-			const bookmarks = await this.api.getAllBookmarks();
-			console.debug('[SyncService] Fetched', bookmarks.length, 'bookmarks');
+			const fetched = await this.api.getAllBookmarks(since, this.settings.excludedCollectionIds, {
+				signal: this.signal,
+				onItems: (count) => this.reportProgress({ phase: 'items', itemsFetched: this.progress.itemsFetched + count }),
+			});
+			console.debug('[SyncService] Fetched', fetched.bookmarks.length, 'bookmarks');
+			this.setCollections(fetched.collections);
+			for (const { collection, reason } of fetched.failedCollections) {
+				this.recordFailure({ stage: 'collection', title: collection.name, reason });
+			}
+
+			// An incremental fetch only lists new items, so items of renamed collections
+			// are fetched in full to update their collection fields
+			if (since > 0) {
+				for (const collectionId of this.findRenamedCollections()) {
+					try {
+						fetched.bookmarks.push(...await this.api.getAllCollectionItems(collectionId, 0, { signal: this.signal }));
+					} catch (error) {
+						if (error instanceof RequestCancelledError) {
+							throw error;
+						}
+						console.error(`[SyncService] Error fetching items of renamed collection ${collectionId}:`, error);
+						const collection = this.collections.get(collectionId)!;
+						const reason = error instanceof Error ? error.message : String(error);
+						fetched.failedCollections.push({ collection, reason });
+						this.recordFailure({ stage: 'collection', title: collection.name, reason });
+					}
+				}
+			}
+
+			if (this.settings.collectionNotes) {
+				try {
+					await this.updateCollectionNotes();
+				} catch (error) {
+					console.error('[SyncService] Error updating collection notes:', error);
+				}
+			}
+
+			// Edits made in the vault go to Pinbox before Pinbox's version is written
+			let heldIds = new Set<number>();
+			if (this.settings.pushLocalEdits) {
+				this.reportProgress({ phase: 'push' });
+				heldIds = await this.pushLocalEdits(fetched.bookmarks, options.resolveConflict);
+			}
+
+			// The same item can be listed by more than one collection. Filtered out
+			// items still count as seen, they exist remotely and must not look deleted.
+			const seenIds = new Set<number>();
+			const bookmarks = fetched.bookmarks.filter(bookmark => {
+				if (seenIds.has(bookmark.id)) {
+					return false;
+				}
+				seenIds.add(bookmark.id);
+				// Soft-deleted items wait for their Pinbox delete, their note must not come back
+				return this.matchesFilters(bookmark) && !heldIds.has(bookmark.id) && !this.settings.deletionQueue[bookmark.id];
+			});
+			console.debug(`[SyncService] ${bookmarks.length} of ${seenIds.size} bookmarks pass the sync filters`);
 
-			if (bookmarks.length === 0) {
+			if (seenIds.size === 0) {
 				console.debug('[SyncService] No bookmarks found');
-				new Notice('未找到任何书签'); // /skip I need use Chinese due to the majority of the target users is Chinese.
-				return 0;
+				// Due retries don't depend on new items
+				await this.retryQueuedContent(false);
+				// An empty listing is more likely a Pinbox or account problem than every
+				// item deleted at once, so synced notes are left alone
+				if (since === 0 && Object.keys(this.settings.syncLedger).length > 0) {
+					console.warn('[SyncService] Pinbox listed no items, skipping remote deletion check');
+				}
+				new Notice(since > 0 ? '没有新的书签' : '未找到任何书签'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				return { syncedCount: 0, complete: fetched.failedCollections.length === 0 };
 			}
 
 			// Create or update markdown files for each bookmark
 			let syncedCount = 0;
-			let newCount = 0;
-			let skippedCount = 0;
+			const report = this.report;
 			console.debug('[SyncService] Starting to create/update bookmark files...');
-			for (const bookmark of bookmarks) {
-				console.debug(`[SyncService] Processing bookmark ${syncedCount + 1}/${bookmarks.length}: ${bookmark.title} (id=${bookmark.id})`);
-				const result = await this.createOrUpdateBookmark(bookmark);
-				syncedCount++;
-				if (result === 'created') {
-					newCount++;
-				} else if (result === 'skipped') {
-					skippedCount++;
+			this.reportProgress({ phase: 'notes', total: bookmarks.length });
+			// Items are processed in parallel, mostly waiting on their web content
+			await mapConcurrent(bookmarks, this.settings.webConcurrency, async (bookmark, index) => {
+				throwIfCancelled(this.signal);
+				console.debug(`[SyncService] Processing bookmark ${index + 1}/${bookmarks.length}: ${bookmark.title} (id=${bookmark.id})`);
+				try {
+					const result = await this.createOrUpdateBookmark(bookmark);
+					if (result === 'skipped') {
+						report.skippedCount++;
+					} else {
+						addReportItem(report, result, { id: bookmark.id, title: bookmark.title, path: this.settings.syncLedger[bookmark.id]?.path });
+					}
+				} catch (error) {
+					if (error instanceof RequestCancelledError) {
+						throw error;
+					}
+					// One broken item shouldn't stop the others
+					console.error(`[SyncService] Error syncing bookmark ${bookmark.id}:`, error);
+					this.recordFailure({ stage: 'note', id: bookmark.id, title: bookmark.title, url: bookmark.url, reason: error instanceof Error ? error.message : String(error) });
 				}
+				syncedCount++;
+				this.reportProgress({ processed: syncedCount });
+			});
+
+			if (fetched.failedCollections.length === 0) {
+				this.rememberCollectionPaths();
 			}
 
+			// Pages that failed in earlier syncs and are due for another try
+			await this.retryQueuedContent(false);
+
+			// Items moved into an excluded collection still exist, they are only filtered out
+			let complete = fetched.failedCollections.length === 0;
+			if (since === 0 && complete) {
+				complete = await this.addExcludedItemIds(seenIds);
+			}
+
+			// Only a complete listing tells us which items are gone
+			let removedCount = 0;
+			if (since === 0 && complete) {
+				throwIfCancelled(this.signal);
+				this.reportProgress({ phase: 'deletions' });
+				removedCount = await this.handleRemoteDeletions(seenIds);
+			} else if (since === 0) {
+				console.warn('[SyncService] Some collections failed to load, skipping remote deletion check');
+			}
+
+			report.removedCount = removedCount;
+
 			console.debug('[SyncService] Sync completed successfully. Total synced:', syncedCount);
-			new Notice(`同步完成：共 ${syncedCount} 个书签，新增 ${newCount} 个，跳过 ${skippedCount} 个`); // /skip I need use Chinese due to the majority of the target users is Chinese.
-			return syncedCount;
+			const removedSummary = removedCount > 0 ? `，处理远程已删除 ${removedCount} 个` : ''; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			const pushedSummary = report.pushedCount ? `，同步到 Pinbox ${report.pushedCount} 个` : ''; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			const failedCount = getFailedItemCount(report);
+			const failedSummary = failedCount > 0 ? `，失败 ${failedCount} 个${this.settings.writeSyncLog ? '，详见同步日志' : ''}` : ''; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			new Notice(`同步完成：共 ${syncedCount} 个书签，新增 ${report.createdCount} 个，更新 ${report.updatedCount} 个，跳过 ${report.skippedCount} 个${pushedSummary}${removedSummary}${failedSummary}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return { syncedCount, complete };
 		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				status = 'cancelled';
+				console.debug(`[SyncService] Sync cancelled after ${this.progress.processed} of ${this.progress.total} bookmarks`);
+				new Notice(`同步已取消，已处理 ${this.progress.processed} 个书签`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				throw error;
+			}
+			status = 'failed';
 			console.error('[SyncService] Sync error:', error);
-			const errorMessage = error instanceof Error ? error.message : '未知错误'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			errorMessage = error instanceof Error ? error.message : '未知错误'; // /skip I need use Chinese due to the majority of the target users is Chinese.
 			new Notice(`同步失败：${errorMessage}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
 			throw error;
+		} finally {
+			this.signal = undefined;
+			this.onProgress = undefined;
+			await this.finishReport(status, errorMessage);
+		}
+	}
+
+	/**
+	 * Write one item into the vault right away, e.g. one just saved to Pinbox,
+	 * the same way a sync would. Returns its note, or null when the sync
+	 * settings exclude the item.
+	 */
+	async syncItem(bookmark: PinboxBookmark, collections: PinboxCollection[]): Promise<TFile | null> {
+		this.noteIndex = null;
+		this.noteTemplate = null;
+		this.reservedPaths.clear();
+		this.setCollections(collections);
+		if (this.settings.excludedCollectionIds.includes(bookmark.collection_id ?? 0) || !this.matchesFilters(bookmark)) {
+			console.debug(`[SyncService] Item ${bookmark.id} is excluded by the sync settings, not writing a note`);
+			return null;
+		}
+
+		await this.ensureFolderExists(this.syncFolder);
+		await this.createOrUpdateBookmark(bookmark);
+		return this.findNoteById(bookmark.id);
+	}
+
+	private recordFailure(failure: SyncReportFailure) {
+		this.report?.failures.push(failure);
+	}
+
+	/**
+	 * Keep the report of the sync that just ended in plugin data and rewrite the
+	 * sync log note. Runs that changed nothing are not kept, so hourly syncs
+	 * don't push the interesting reports out.
+	 */
+	private async finishReport(status: SyncReportStatus, error?: string) {
+		const report = this.report;
+		this.report = null;
+		if (!report) {
+			return;
+		}
+
+		report.status = status;
+		report.error = error;
+		report.finishedAt = Date.now();
+		for (const failure of report.failures) {
+			if (failure.id !== undefined && !failure.path) {
+				failure.path = this.settings.syncLedger[failure.id]?.path;
+			}
+			if (!failure.title && failure.path) {
+				failure.title = failure.path.substring(failure.path.lastIndexOf('/') + 1).replace(/\.md$/, '');
+			}
+		}
+
+		const eventful = status !== 'completed' || report.failures.length > 0
+			|| report.createdCount > 0 || report.updatedCount > 0 || report.removedCount > 0 || !!report.pushedCount;
+		if (!eventful) {
+			return;
+		}
+		this.settings.syncReports = [...this.settings.syncReports, report].slice(-MAX_SYNC_REPORTS);
+
+		if (!this.settings.writeSyncLog) {
+			return;
+		}
+		try {
+			const logPath = normalizePath(this.settings.syncLogPath);
+			const content = renderSyncLog(this.settings.syncReports);
+			const existing = this.app.vault.getAbstractFileByPath(logPath);
+			if (existing instanceof TFile) {
+				await this.app.vault.modify(existing, content);
+			} else {
+				await this.ensureFolderExists(logPath.substring(0, logPath.lastIndexOf('/')));
+				await this.app.vault.create(logPath, content);
+			}
+		} catch (logError) {
+			console.error('[SyncService] Error writing sync log:', logError);
 		}
 	}
 
@@ -80,50 +405,1129 @@ export class SyncService {
 		const normalizedPath = normalizePath(folderPath);
 		const folder = this.app.vault.getAbstractFileByPath(normalizedPath);
 
-		if (!folder) {
+		if (!folder) {
+			try {
+				await this.app.vault.createFolder(normalizedPath);
+			} catch (error) {
+				// Ignore "Folder already exists" error
+				// This can happen when multiple operations try to create the same folder simultaneously
+				if (error instanceof Error && !error.message.includes('Folder already exists')) {
+					throw error;
+				}
+			}
+		}
+	}
+
+	private async createOrUpdateBookmark(bookmark: PinboxBookmark): Promise<SyncResult> {
+		const existingFile = this.findNoteById(bookmark.id);
+		const ledgerEntry = this.settings.syncLedger[bookmark.id];
+
+		if (existingFile) {
+			if (!ledgerEntry) {
+				// A note from an older version or another device: start tracking it as is
+				console.debug(`[SyncService] Found untracked note for item ${bookmark.id}, skipping: ${existingFile.path}`);
+				await this.recordSynced(bookmark, existingFile);
+				return 'skipped';
+			}
+
+			if (ledgerEntry.hash === hashBookmark(bookmark, this.getBookmarkCollectionPath(bookmark))) {
+				console.debug(`[SyncService] Item ${bookmark.id} unchanged, skipping: ${existingFile.path}`);
+				ledgerEntry.path = existingFile.path;
+				ledgerEntry.lastSeen = Date.now();
+				if (!ledgerEntry.localFields) {
+					// Tracked before edits went back to Pinbox: the note as it is is the base
+					await this.recordSynced(bookmark, existingFile);
+				}
+				return 'skipped';
+			}
+
+			console.debug(`[SyncService] Item ${bookmark.id} changed in Pinbox, updating: ${existingFile.path}`);
+			await this.updateBookmarkNote(existingFile, bookmark);
+			await this.recordSynced(bookmark, existingFile);
+			return 'updated';
+		}
+
+		// Reserve the path right away, other items are created while this one is fetched
+		const filePath = this.getAvailableNotePath(bookmark);
+		this.reservedPaths.add(filePath);
+		console.debug(`[SyncService] Processing file: ${filePath}`);
+		await this.ensureFolderExists(filePath.substring(0, filePath.lastIndexOf('/')));
+
+		// Text items carry their content, everything else with a URL is fetched
+		let webContent: string | null = null;
+		let metadata: ArticleMetadata = {};
+		if (getContentKind(bookmark.url, bookmark.item_type) === 'text') {
+			webContent = getTextItemContent(bookmark);
+		} else {
+			const result = await this.fetchItemContent(bookmark.id, bookmark.url, bookmark.title, bookmark.item_type);
+			webContent = result.content;
+			metadata = result.metadata ?? {};
+		}
+
+		// Download images if enabled
+		if (webContent && this.downloadImages) {
+			webContent = await this.downloadImagesInContent(webContent, bookmark.id, filePath);
+		}
+
+		// Generate markdown content with web content
+		const content = this.generateMarkdownContent(await this.getNoteTemplate(), bookmark, webContent, metadata);
+
+		// Create new file
+		console.debug(`[SyncService] Creating new file: ${filePath}`);
+		const file = await this.app.vault.create(filePath, content);
+		await this.recordSynced(bookmark, file);
+		return 'created';
+	}
+
+	/**
+	 * Find the note of a Pinbox item by its `id` frontmatter, wherever it lives in
+	 * the vault. The ledger path is tried first, the metadata cache is the fallback
+	 * for notes that were moved or renamed while the plugin wasn't watching.
+	 */
+	findNoteById(id: number): TFile | null {
+		const ledgerEntry = this.settings.syncLedger[id];
+		if (ledgerEntry) {
+			const file = this.app.vault.getAbstractFileByPath(ledgerEntry.path);
+			if (file instanceof TFile) {
+				const cachedId = this.getCachedNoteId(file);
+				// No cache yet (e.g. the file was just created): trust the ledger
+				if (cachedId === null || cachedId === id) {
+					return file;
+				}
+			}
+		}
+
+		if (!this.noteIndex) {
+			this.noteIndex = this.buildNoteIndex();
+		}
+		return this.noteIndex.get(id) ?? null;
+	}
+
+	private buildNoteIndex(): Map<number, TFile> {
+		const index = new Map<number, TFile>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const id = this.getCachedNoteId(file);
+			if (id !== null && !index.has(id)) {
+				index.set(id, file);
+			}
+		}
+		console.debug(`[SyncService] Indexed ${index.size} notes with a Pinbox id`);
+		return index;
+	}
+
+	/**
+	 * The Pinbox notes among `files`, folders with everything below them. Only
+	 * notes the ledger knows or that live in the sync folder count, other notes
+	 * may use `id` for something else.
+	 */
+	collectPinboxNotes(files: TAbstractFile[]): PinboxNote[] {
+		const notes = new Map<number, PinboxNote>();
+		const visit = (file: TAbstractFile) => {
+			if (file instanceof TFolder) {
+				file.children.forEach(visit);
+				return;
+			}
+			if (!(file instanceof TFile) || file.extension !== 'md') {
+				return;
+			}
+			const id = this.getCachedNoteId(file);
+			if (id !== null && !notes.has(id) && (this.settings.syncLedger[id] || file.path.startsWith(`${normalizePath(this.syncFolder)}/`))) {
+				notes.set(id, { file, id });
+			}
+		};
+		files.forEach(visit);
+		return [...notes.values()];
+	}
+
+	/**
+	 * Pinbox notes whose title, path, url, tags or collection contain every
+	 * word of `query`, ignoring case.
+	 */
+	searchPinboxNotes(query: string): PinboxNote[] {
+		const words = query.toLowerCase().split(/\s+/).filter(word => word);
+		if (words.length === 0) {
+			return [];
+		}
+		return this.collectPinboxNotes(this.app.vault.getMarkdownFiles()).filter(({ file }) => {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+			const tags: unknown = frontmatter.tags;
+			const text = [file.path, frontmatter.title, frontmatter.url, frontmatter.collection, ...(Array.isArray(tags) ? tags as unknown[] : [tags])]
+				.filter((value): value is string | number => typeof value === 'string' || typeof value === 'number')
+				.join('\n')
+				.toLowerCase();
+			return words.every(word => text.includes(word));
+		});
+	}
+
+	private getCachedNoteId(file: TFile): number | null {
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		if (!frontmatter || frontmatter.id === undefined || frontmatter.id === null) {
+			return null;
+		}
+		const id = Number(frontmatter.id);
+		return Number.isInteger(id) ? id : null;
+	}
+
+	/**
+	 * Path for a new note: the collection folder (if enabled) plus the file name
+	 * pattern, with the item id appended when the name is taken.
+	 */
+	private getAvailableNotePath(bookmark: PinboxBookmark, currentPath?: string): string {
+		return getAvailableNotePath(this.getNoteFolder(bookmark), this.getNoteBaseName(bookmark), bookmark.id, path => this.isPathTaken(path), currentPath);
+	}
+
+	private isPathTaken(path: string): boolean {
+		return this.reservedPaths.has(path) || !!this.app.vault.getAbstractFileByPath(path);
+	}
+
+	private getNoteBaseName(bookmark: PinboxBookmark): string {
+		const pattern = this.settings.fileNamePattern.trim() || '{{title}}';
+		const name = this.sanitizeFileName(renderTemplate(pattern, this.buildTemplateContext(bookmark, '')));
+		return name || String(bookmark.id);
+	}
+
+	private getNoteFolder(bookmark: PinboxBookmark): string {
+		if (!this.settings.collectionFolders) {
+			return normalizePath(this.syncFolder);
+		}
+		return this.getCollectionFolder(bookmark.collection_id ?? 0);
+	}
+
+	// The subfolder of a collection when collection folders are on, the sync folder for 0
+	private getCollectionFolder(collectionId: number): string {
+		const segments = this.getCollectionPath(collectionId)
+			.map(name => this.sanitizeFileName(name))
+			.filter(name => name);
+		return normalizePath([this.syncFolder, ...segments].join('/'));
+	}
+
+	/**
+	 * The collection a folder stands for with collection folders on: 0 for the
+	 * sync folder itself, null for folders no collection maps to.
+	 */
+	private getFolderCollectionId(folderPath: string): number | null {
+		const folder = normalizePath(folderPath);
+		if (folder === normalizePath(this.syncFolder)) {
+			return 0;
+		}
+		for (const collectionId of this.collections.keys()) {
+			if (this.getCollectionFolder(collectionId) === folder) {
+				return collectionId;
+			}
+		}
+		return null;
+	}
+
+	private setCollections(collections: PinboxCollection[]) {
+		this.collections = new Map(collections.map(collection => [collection.id, collection]));
+	}
+
+	/**
+	 * Collection names from the top-level collection down to `collectionId`,
+	 * following parent_id. Empty for the default collection or unknown ids.
+	 */
+	private getCollectionPath(collectionId: number): string[] {
+		const path: string[] = [];
+		const visited = new Set<number>();
+		let collection = this.collections.get(collectionId);
+		while (collection && !visited.has(collection.id)) {
+			visited.add(collection.id);
+			path.unshift(collection.name);
+			collection = collection.parent_id !== null ? this.collections.get(collection.parent_id) : undefined;
+		}
+		return path;
+	}
+
+	private getBookmarkCollectionPath(bookmark: PinboxBookmark): string[] {
+		if (bookmark.collection_id === null || bookmark.collection_id === undefined) {
+			return [];
+		}
+		return this.getCollectionPath(bookmark.collection_id);
+	}
+
+	/**
+	 * Collections whose path changed since the last sync, either renamed
+	 * themselves or moved along with a renamed parent.
+	 */
+	private findRenamedCollections(): number[] {
+		const renamed: number[] = [];
+		for (const collectionId of this.collections.keys()) {
+			const previous = this.settings.collectionPaths[collectionId];
+			if (previous !== undefined && previous !== this.getCollectionPath(collectionId).join('/')
+				&& !this.settings.excludedCollectionIds.includes(collectionId)) {
+				renamed.push(collectionId);
+			}
+		}
+		return renamed;
+	}
+
+	private rememberCollectionPaths() {
+		const paths: Record<string, string> = {};
+		for (const collectionId of this.collections.keys()) {
+			paths[collectionId] = this.getCollectionPath(collectionId).join('/');
+		}
+		this.settings.collectionPaths = paths;
+	}
+
+	private getCollectionNotePath(collectionId: number): string | null {
+		const segments = this.getCollectionPath(collectionId)
+			.map(name => this.sanitizeFileName(name))
+			.filter(name => name);
+		if (segments.length === 0) {
+			return null;
+		}
+		return normalizePath(`${this.settings.collectionNoteFolder}/${segments.join('/')}.md`);
+	}
+
+	private getCollectionNoteLink(collectionId: number): string {
+		const path = this.getCollectionNotePath(collectionId);
+		const name = this.collections.get(collectionId)?.name;
+		if (!path || !name) {
+			return '';
+		}
+		return `[[${path.replace(/\.md$/, '')}|${name}]]`;
+	}
+
+	/**
+	 * Create a MOC note for every synced collection, and move and update the
+	 * existing ones when a collection was renamed. A MOC is recognised by its
+	 * `pinbox_collection_id` frontmatter, its body belongs to the user once created.
+	 */
+	private async updateCollectionNotes() {
+		const existing = new Map<number, TFile>();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const collectionId: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.pinbox_collection_id;
+			if (typeof collectionId === 'number' && !existing.has(collectionId)) {
+				existing.set(collectionId, file);
+			}
+		}
+
+		for (const collection of this.collections.values()) {
+			if (this.settings.excludedCollectionIds.includes(collection.id)) {
+				continue;
+			}
+			const path = this.getCollectionNotePath(collection.id);
+			if (!path) {
+				continue;
+			}
+
+			const parentLink = collection.parent_id !== null ? this.getCollectionNoteLink(collection.parent_id) : '';
+			const collectionPath = this.getCollectionPath(collection.id).join('/');
+			const file = existing.get(collection.id);
+
+			if (!file) {
+				if (this.app.vault.getAbstractFileByPath(path)) {
+					console.warn(`[SyncService] ${path} exists but is not the note of collection ${collection.id}, skipping`);
+					continue;
+				}
+				await this.ensureFolderExists(path.substring(0, path.lastIndexOf('/')));
+				console.debug(`[SyncService] Creating collection note: ${path}`);
+				await this.app.vault.create(path, this.generateCollectionNote(collection, collectionPath, parentLink));
+				continue;
+			}
+
+			if (file.path !== path && !this.app.vault.getAbstractFileByPath(path)) {
+				await this.ensureFolderExists(path.substring(0, path.lastIndexOf('/')));
+				console.debug(`[SyncService] Moving collection note ${file.path} -> ${path}`);
+				await this.app.fileManager.renameFile(file, path);
+			}
+
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (frontmatter?.collection !== collectionPath || (frontmatter?.parent ?? '') !== parentLink) {
+				await this.app.fileManager.processFrontMatter(file, (data: Record<string, unknown>) => {
+					data.collection = collectionPath;
+					if (parentLink) {
+						data.parent = parentLink;
+					} else {
+						delete data.parent;
+					}
+				});
+			}
+		}
+	}
+
+	private generateCollectionNote(collection: PinboxCollection, collectionPath: string, parentLink: string): string {
+		const lines = [
+			'---',
+			`pinbox_collection_id: ${collection.id}`,
+			`collection: ${JSON.stringify(collectionPath)}`,
+		];
+		if (parentLink) {
+			lines.push(`parent: ${JSON.stringify(parentLink)}`);
+		}
+		lines.push('---', '');
+		if (collection.description) {
+			lines.push(collection.description, '');
+		}
+		lines.push(
+			'```dataview',
+			'TABLE title AS "标题", created_at AS "创建时间"', // /skip I need use Chinese due to the majority of the target users is Chinese.
+			`FROM "${this.syncFolder}"`,
+			`WHERE id AND collection_id = ${collection.id}`,
+			'SORT created_at DESC',
+			'```',
+			'',
+		);
+		return lines.join('\n');
+	}
+
+	/**
+	 * Move existing notes to where the current file name pattern and folder
+	 * layout would put them. Fetches the full item list to know each item's
+	 * title and collection. Returns the number of notes moved.
+	 */
+	async relocateNotes(): Promise<number> {
+		this.noteIndex = null;
+		const fetched = await this.api.getAllBookmarks(0, this.settings.excludedCollectionIds);
+		this.setCollections(fetched.collections);
+
+		let moved = 0;
+		const seenIds = new Set<number>();
+		for (const bookmark of fetched.bookmarks) {
+			if (seenIds.has(bookmark.id)) {
+				continue;
+			}
+			seenIds.add(bookmark.id);
+
+			const file = this.findNoteById(bookmark.id);
+			if (!file) {
+				continue;
+			}
+
+			const targetPath = this.getAvailableNotePath(bookmark, file.path);
+			if (targetPath === file.path) {
+				continue;
+			}
+
+			try {
+				await this.ensureFolderExists(targetPath.substring(0, targetPath.lastIndexOf('/')));
+				console.debug(`[SyncService] Moving ${file.path} -> ${targetPath}`);
+				// The vault rename event updates the ledger path
+				await this.app.fileManager.renameFile(file, targetPath);
+				moved++;
+			} catch (error) {
+				console.error(`[SyncService] Error moving ${file.path} to ${targetPath}:`, error);
+			}
+		}
+
+		return moved;
+	}
+
+	/**
+	 * Move an item to another collection in Pinbox (0 for the default
+	 * collection) and take its note along: the collection frontmatter and, with
+	 * collection folders, the folder. The next sync rewrites the rest of the note.
+	 */
+	async moveItemToCollection(file: TFile, id: number, collectionId: number, collections: PinboxCollection[]) {
+		this.setCollections(collections);
+		await this.api.moveItem(id, collectionId);
+		await this.applyCollectionChange(file, id, collectionId);
+
+		if (!this.settings.collectionFolders) {
+			return;
+		}
+		const folder = this.getCollectionFolder(collectionId);
+		if (file.parent?.path === folder) {
+			return;
+		}
+		await this.ensureFolderExists(folder);
+		const targetPath = this.getAvailablePath(folder, file.basename, file.extension);
+		console.debug(`[SyncService] Moving ${file.path} -> ${targetPath}`);
+		await this.app.fileManager.renameFile(file, targetPath);
+	}
+
+	/**
+	 * A note was moved in the vault: with collection folders on, move its item
+	 * to the collection of the new folder. Returns the collection path the item
+	 * went to, or null when nothing changed in Pinbox.
+	 */
+	async moveItemWithNote(file: TFile, oldPath: string): Promise<string | null> {
+		const oldFolder = oldPath.includes('/') ? oldPath.substring(0, oldPath.lastIndexOf('/')) : '/';
+		const id = this.getCachedNoteId(file);
+		if (!this.settings.collectionFolders || !file.parent || file.parent.path === oldFolder || id === null || !this.settings.syncLedger[id]) {
+			return null;
+		}
+
+		if (this.collections.size === 0) {
+			this.setCollections(await this.api.getCollections());
+		}
+		const collectionId = this.getFolderCollectionId(file.parent.path);
+		if (collectionId === null || collectionId === this.getKnownCollectionId(id, file)) {
+			return null;
+		}
+
+		console.debug(`[SyncService] ${file.path} was moved into the folder of collection ${collectionId}, moving item ${id} in Pinbox`);
+		await this.api.moveItem(id, collectionId);
+		await this.applyCollectionChange(file, id, collectionId);
+		return this.getCollectionPath(collectionId).join('/');
+	}
+
+	// Update the ledger and the collection keys the note has to the item's new collection
+	private async applyCollectionChange(file: TFile, id: number, collectionId: number) {
+		const ledgerEntry = this.settings.syncLedger[id];
+		if (ledgerEntry) {
+			ledgerEntry.collectionId = collectionId || null;
+		}
+		const context = this.getCollectionContext(collectionId || null);
+		await this.app.fileManager.processFrontMatter(file, (data: Record<string, unknown>) => {
+			for (const [key, value] of Object.entries(context)) {
+				if (key in data) {
+					data[key] = value;
+				}
+			}
+		});
+	}
+
+	/**
+	 * Keep the ledger pointing at notes the user renames or moves inside Obsidian.
+	 */
+	handleRename(file: TAbstractFile, oldPath: string): boolean {
+		let changed = false;
+		for (const entry of Object.values(this.settings.syncLedger)) {
+			if (entry.path === oldPath) {
+				entry.path = file.path;
+				changed = true;
+			} else if (file instanceof TFolder && entry.path.startsWith(`${oldPath}/`)) {
+				entry.path = file.path + entry.path.substring(oldPath.length);
+				changed = true;
+			}
+		}
+		return changed;
+	}
+
+	/**
+	 * Rewrite the synced part of an existing note: the managed frontmatter keys and
+	 * everything above USER_CONTENT_MARKER. The web content is only fetched again
+	 * when refetchContentOnUpdate is on, otherwise the current block is reused.
+	 */
+	private async updateBookmarkNote(file: TFile, bookmark: PinboxBookmark) {
+		const template = await this.getNoteTemplate();
+		const current = await this.app.vault.read(file);
+		const { body } = this.splitFrontmatter(current);
+		// Kept from the last fetch unless the page is fetched again below
+		let metadata = readArticleMetadata(this.app.metadataCache.getFileCache(file)?.frontmatter);
+
+		// Notes written before the marker existed have no safe boundary, only touch their frontmatter
+		if (USER_CONTENT_MARKER_REGEX.test(body)) {
+			let contentBlock = this.extractContentBlock(body);
+
+			if (getContentKind(bookmark.url, bookmark.item_type) === 'text') {
+				// The text is what changed, no fetch needed to get it
+				contentBlock = getTextItemContent(bookmark);
+			} else if (this.settings.refetchContentOnUpdate) {
+				// A failed fetch keeps the current block, only a note without content waits for a retry
+				const holdsFallback = contentBlock === null
+					|| contentBlock === this.buildContentBlock(bookmark, null)
+					|| bookmark.id in this.settings.contentRetryQueue;
+				const result = await this.fetchItemContent(bookmark.id, bookmark.url, bookmark.title, bookmark.item_type, holdsFallback);
+				let webContent = result.content;
+				if (webContent && this.downloadImages) {
+					webContent = await this.downloadImagesInContent(webContent, bookmark.id, file.path);
+				}
+				// Keep what we had if the page can't be fetched this time
+				if (webContent) {
+					contentBlock = webContent;
+					metadata = result.metadata ?? metadata;
+				}
+			}
+
+			if (contentBlock === null) {
+				contentBlock = this.buildContentBlock(bookmark, null);
+			}
+
+			const managedBody = this.renderNote(template, bookmark, contentBlock, metadata).body;
+			await this.app.vault.process(file, (data) => {
+				const { frontmatter, body: latestBody } = this.splitFrontmatter(data);
+				const markerMatch = USER_CONTENT_MARKER_REGEX.exec(latestBody);
+				if (!markerMatch) {
+					return data;
+				}
+				const userContent = latestBody.substring(markerMatch.index + markerMatch[0].length);
+				return `${frontmatter}${managedBody}${USER_CONTENT_MARKER}${userContent}`;
+			});
+		} else {
+			console.debug(`[SyncService] ${file.path} has no user content marker, updating frontmatter only`);
+		}
+
+		const rendered = this.renderNote(template, bookmark, '', metadata).frontmatter;
+		const generated = (parseYaml(rendered.replace(/^---\r?\n/, '').replace(/\r?\n---\s*$/, '')) ?? {}) as Record<string, unknown>;
+		const managedKeys = getTemplateFrontmatterKeys(template);
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			for (const key of managedKeys) {
+				if (key in generated) {
+					frontmatter[key] = generated[key];
+				} else {
+					delete frontmatter[key];
+				}
+			}
+		});
+	}
+
+	private splitFrontmatter(content: string): { frontmatter: string; body: string } {
+		const match = /^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/.exec(content);
+		if (!match) {
+			return { frontmatter: '', body: content };
+		}
+		return { frontmatter: match[0], body: content.substring(match[0].length) };
+	}
+
+	private extractContentBlock(body: string): string | null {
+		const start = body.indexOf(CONTENT_START_MARKER);
+		const end = body.indexOf(CONTENT_END_MARKER);
+		if (start === -1 || end === -1 || end < start) {
+			return null;
+		}
+		return body.substring(start + CONTENT_START_MARKER.length, end).trim();
+	}
+
+	// Call after the note was written, the note's fields are read back from it
+	private async recordSynced(bookmark: PinboxBookmark, file: TFile) {
+		this.settings.syncLedger[bookmark.id] = {
+			path: file.path,
+			hash: hashBookmark(bookmark, this.getBookmarkCollectionPath(bookmark)),
+			lastSeen: Date.now(),
+			collectionId: bookmark.collection_id ?? null,
+			remoteFields: hashEditableValues(getRemoteValues(bookmark)),
+			localFields: hashEditableValues(await this.readEditableValues(file)),
+			localMtime: file.stat.mtime,
+		};
+	}
+
+	/**
+	 * Send title, tag and note edits made in the vault to Pinbox, see
+	 * twoWaySync.ts. The fetched bookmarks of pushed items take the note's
+	 * values, so the update that follows writes what Pinbox now has. Returns
+	 * the ids of items whose conflict was left open; they are not written in
+	 * this sync. Notes not modified since they were last checked aren't read.
+	 */
+	private async pushLocalEdits(fetched: PinboxBookmark[], resolveConflict: SyncOptions['resolveConflict']): Promise<Set<number>> {
+		const heldIds = new Set<number>();
+		const remoteById = new Map<number, PinboxBookmark>();
+		for (const bookmark of fetched) {
+			if (!remoteById.has(bookmark.id)) {
+				remoteById.set(bookmark.id, bookmark);
+			}
+		}
+
+		for (const id of Object.keys(this.settings.syncLedger).map(Number)) {
+			throwIfCancelled(this.signal);
+			const entry = this.settings.syncLedger[id];
+			const file = entry.localFields && entry.remoteFields ? this.findNoteById(id) : null;
+			if (!file || !entry.localFields || !entry.remoteFields || file.stat.mtime === entry.localMtime) {
+				continue;
+			}
+
+			const local = await this.readEditableValues(file);
+			const bookmark = remoteById.get(id);
+			// Incremental syncs don't list older items, their Pinbox side counts as unchanged
+			const remote = bookmark ? getRemoteValues(bookmark) : null;
+			const { push, conflicts } = compareEdits(hashEditableValues(local), remote ? hashEditableValues(remote) : entry.remoteFields, entry.localFields, entry.remoteFields);
+			const title = bookmark?.title ?? file.basename;
+
+			if (conflicts.length > 0) {
+				const resolution = this.settings.conflictStrategy === 'ask'
+					? await resolveConflict?.({ id, title, fields: conflicts, local, remote: remote ?? {} }) ?? null
+					: this.settings.conflictStrategy;
+				if (resolution === null) {
+					console.debug(`[SyncService] Conflict of item ${id} left open: ${conflicts.join(', ')}`);
+					heldIds.add(id);
+					continue;
+				}
+				if (resolution === 'local') {
+					push.push(...conflicts);
+				}
+			}
+			if (push.length === 0) {
+				entry.localMtime = file.stat.mtime;
+				continue;
+			}
+
+			const changes: EditableValues = {};
+			for (const field of push) {
+				Object.assign(changes, { [field]: local[field] });
+			}
+			try {
+				console.debug(`[SyncService] Sending edits of ${file.path} to Pinbox: ${push.join(', ')}`);
+				await this.api.updateItem(id, changes, this.signal);
+			} catch (error) {
+				if (error instanceof RequestCancelledError) {
+					throw error;
+				}
+				this.recordFailure({ stage: 'push', id, title, reason: error instanceof Error ? error.message : String(error) });
+				continue;
+			}
+
+			const pushedHashes = hashEditableValues(changes);
+			entry.localFields = { ...entry.localFields, ...pushedHashes };
+			entry.remoteFields = { ...entry.remoteFields, ...pushedHashes };
+			entry.localMtime = file.stat.mtime;
+			if (bookmark) {
+				Object.assign(bookmark, changes);
+			}
+			if (this.report) {
+				addReportItem(this.report, 'pushed', { id, title: changes.title ?? title, path: file.path });
+			}
+		}
+		return heldIds;
+	}
+
+	// Title, tags and note as the note shows them, above its content block
+	private async readEditableValues(file: TFile): Promise<EditableValues> {
+		const template = await this.getNoteTemplate();
+		const { frontmatter, body } = this.splitFrontmatter(await this.app.vault.read(file));
+		const data = (parseYaml(frontmatter.replace(/^---\r?\n/, '').replace(/\r?\n---\s*$/, '')) ?? {}) as Record<string, unknown>;
+		let managedBody = body.split(CONTENT_START_MARKER)[0];
+		const markerMatch = USER_CONTENT_MARKER_REGEX.exec(managedBody);
+		if (markerMatch) {
+			managedBody = managedBody.substring(0, markerMatch.index);
+		}
+		return readNoteValues(data, managedBody, template, getTemplateFrontmatterKeys(template));
+	}
+
+	/**
+	 * Item type, tag and date filters from the selective sync settings. Runs
+	 * before any web content is fetched.
+	 */
+	private matchesFilters(bookmark: PinboxBookmark): boolean {
+		const normalize = (values: string[]) => values.map(value => value.trim().toLowerCase()).filter(value => value);
+
+		const itemType = (bookmark.item_type || '').toLowerCase();
+		const includeTypes = normalize(this.settings.includeItemTypes);
+		if (includeTypes.length > 0 && !includeTypes.includes(itemType)) {
+			return false;
+		}
+		if (normalize(this.settings.excludeItemTypes).includes(itemType)) {
+			return false;
+		}
+
+		const tags = normalize(getTagNames(bookmark.tags));
+		const includeTags = normalize(this.settings.includeTags);
+		if (includeTags.length > 0 && !tags.some(tag => includeTags.includes(tag))) {
+			return false;
+		}
+		const excludeTags = normalize(this.settings.excludeTags);
+		if (tags.some(tag => excludeTags.includes(tag))) {
+			return false;
+		}
+
+		if (this.settings.createdAfter) {
+			const cutoff = parsePinboxDate(this.settings.createdAfter);
+			const createdAt = parsePinboxDate(bookmark.created_at);
+			// Keep items with an unparsable date rather than silently dropping them
+			if (!isNaN(cutoff) && !isNaN(createdAt) && createdAt < cutoff) {
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Add the ids of the items in excluded collections to `seenIds`. Returns
+	 * false when a collection could not be listed.
+	 */
+	private async addExcludedItemIds(seenIds: Set<number>): Promise<boolean> {
+		let listed = true;
+		for (const collectionId of this.settings.excludedCollectionIds) {
+			const collection = this.collections.get(collectionId);
+			if (collectionId !== 0 && !collection) {
+				// Deleted in Pinbox, its items went with it
+				continue;
+			}
+			try {
+				const items = await this.api.getAllCollectionItems(collectionId, 0, { signal: this.signal });
+				items.forEach(item => seenIds.add(item.id));
+			} catch (error) {
+				if (error instanceof RequestCancelledError) {
+					throw error;
+				}
+				console.error(`[SyncService] Error listing items of excluded collection ${collectionId}:`, error);
+				const reason = error instanceof Error ? error.message : String(error);
+				this.recordFailure({ stage: 'collection', title: collection?.name ?? '默认收藏夹', reason }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				listed = false;
+			}
+		}
+		return listed;
+	}
+
+	/**
+	 * Apply settings.remoteDeletionPolicy to notes whose item no longer exists in
+	 * Pinbox. `remoteIds` must come from a complete fetch. Returns how many notes
+	 * were marked, archived or trashed.
+	 */
+	private async handleRemoteDeletions(remoteIds: Set<number>): Promise<number> {
+		if (!this.noteIndex) {
+			this.noteIndex = this.buildNoteIndex();
+		}
+
+		// Untracked notes only count inside the sync folder, so notes of other plugins
+		// that happen to carry an `id` field are never touched
+		const localIds = new Set<number>(Object.keys(this.settings.syncLedger).map(Number));
+		const syncFolderPrefix = normalizePath(this.syncFolder) + '/';
+		this.noteIndex.forEach((file, id) => {
+			if (file.path.startsWith(syncFolderPrefix)) {
+				localIds.add(id);
+			}
+		});
+
+		const policy = this.settings.remoteDeletionPolicy;
+		const excludedCollections = new Set(this.settings.excludedCollectionIds);
+		let handled = 0;
+
+		for (const id of localIds) {
+			if (remoteIds.has(id)) {
+				continue;
+			}
+
+			const file = this.findNoteById(id);
+			if (!file) {
+				// The note is gone too, nothing left to track
+				await this.forgetItem(id);
+				continue;
+			}
+
+			// Notes of excluded collections are left alone, deletions included
+			if (excludedCollections.size > 0) {
+				const collectionId = this.getKnownCollectionId(id, file);
+				if (collectionId === undefined || excludedCollections.has(collectionId)) {
+					continue;
+				}
+			}
+
+			if (policy === 'keep' || this.app.metadataCache.getFileCache(file)?.frontmatter?.deleted_remotely) {
+				continue;
+			}
+
+			console.debug(`[SyncService] Item ${id} was deleted in Pinbox, applying policy "${policy}" to ${file.path}`);
+			try {
+				if (policy === 'trash') {
+					await this.app.fileManager.trashFile(file);
+					await this.deleteImageFolder(String(id));
+					await this.forgetItem(id);
+				} else {
+					await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+						frontmatter.deleted_remotely = true;
+					});
+					if (policy === 'archive') {
+						await this.ensureFolderExists(this.settings.archiveFolder);
+						const targetPath = this.getAvailablePath(this.settings.archiveFolder, file.basename, file.extension);
+						// The vault rename event updates the ledger path
+						await this.app.fileManager.renameFile(file, targetPath);
+					}
+				}
+				handled++;
+			} catch (error) {
+				console.error(`[SyncService] Error handling remote deletion of item ${id}:`, error);
+			}
+		}
+
+		return handled;
+	}
+
+	/**
+	 * The collection an item was in when last synced (0 for the default
+	 * collection), or undefined when neither the ledger nor the note knows.
+	 */
+	private getKnownCollectionId(id: number, file: TFile): number | undefined {
+		const ledgerEntry = this.settings.syncLedger[id];
+		if (ledgerEntry && ledgerEntry.collectionId !== undefined) {
+			return ledgerEntry.collectionId ?? 0;
+		}
+		const collectionId: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.collection_id;
+		if (collectionId === undefined) {
+			return undefined;
+		}
+		return collectionId === null ? 0 : Number(collectionId);
+	}
+
+	private getAvailablePath(folder: string, baseName: string, extension: string): string {
+		let path = normalizePath(`${folder}/${baseName}.${extension}`);
+		let suffix = 1;
+		while (this.app.vault.getAbstractFileByPath(path)) {
+			path = normalizePath(`${folder}/${baseName} ${suffix}.${extension}`);
+			suffix++;
+		}
+		return path;
+	}
+
+	async deleteImageFolder(itemId: string) {
+		try {
+			const imageFolderPath = normalizePath(`${this.imageFolder}/${itemId}`);
+			const imageFolder = this.app.vault.getAbstractFileByPath(imageFolderPath);
+
+			if (imageFolder) {
+				console.debug(`[SyncService] Deleting image folder: ${imageFolderPath}`);
+				await this.app.fileManager.trashFile(imageFolder);
+				console.debug(`[SyncService] Image folder deleted: ${imageFolderPath}`);
+			} else {
+				console.debug(`[SyncService] Image folder not found: ${imageFolderPath}`);
+			}
+		} catch (error) {
+			console.error(`[SyncService] Error deleting image folder for item ${itemId}:`, error);
+			// Don't throw error, just log it - deletion of images is not critical
+		}
+	}
+
+	/**
+	 * Look for attachments left behind in the image folder: item folders whose
+	 * note is gone, e.g. deleted by hand, and images nothing uses any more.
+	 * Nothing is deleted, see trashOrphanedAttachments.
+	 */
+	findOrphanedAttachments(): OrphanedAttachments {
+		this.noteIndex = null;
+		const orphans: OrphanedAttachments = { folders: [], files: [], size: 0 };
+		const root = this.app.vault.getAbstractFileByPath(normalizePath(this.imageFolder));
+		if (!(root instanceof TFolder)) {
+			return orphans;
+		}
+
+		const usedPaths = new Set<string>();
+		const resolvedLinks = this.app.metadataCache.resolvedLinks;
+		for (const source of Object.keys(resolvedLinks)) {
+			Object.keys(resolvedLinks[source]).forEach(path => usedPaths.add(path));
+		}
+		// Images of local snapshots are only linked from the HTML file
+		for (const image of Object.values(this.settings.imageIndex.images)) {
+			if (image.items.some(id => this.findNoteById(id))) {
+				usedPaths.add(image.path);
+			}
+		}
+
+		const collectUnusedImages = (folder: TFolder) => {
+			for (const child of folder.children) {
+				if (child instanceof TFile && isImageExtension(child.extension) && !usedPaths.has(child.path)) {
+					orphans.files.push(child);
+					orphans.size += child.stat.size;
+				}
+			}
+		};
+
+		collectUnusedImages(root);
+		for (const child of root.children) {
+			// Folders not named after an item id are not ours
+			if (!(child instanceof TFolder) || !/^\d+$/.test(child.name)) {
+				continue;
+			}
+			if (this.findNoteById(Number(child.name))) {
+				collectUnusedImages(child);
+			} else {
+				orphans.folders.push(child);
+				orphans.size += this.getFolderSize(child);
+			}
+		}
+		console.debug(`[SyncService] Found ${orphans.folders.length} orphaned attachment folders and ${orphans.files.length} unused images`);
+		return orphans;
+	}
+
+	/**
+	 * Move what findOrphanedAttachments found to the trash. Returns how many
+	 * folders and files were trashed.
+	 */
+	async trashOrphanedAttachments(orphans: OrphanedAttachments): Promise<number> {
+		let trashed = 0;
+		const trashedPaths: string[] = [];
+		for (const item of [...orphans.folders, ...orphans.files]) {
+			try {
+				await this.app.fileManager.trashFile(item);
+				trashedPaths.push(item.path);
+				trashed++;
+			} catch (error) {
+				console.error(`[SyncService] Error trashing ${item.path}:`, error);
+			}
+		}
+		forgetImagePaths(this.settings.imageIndex, trashedPaths);
+		return trashed;
+	}
+
+	private getFolderSize(folder: TFolder): number {
+		let size = 0;
+		for (const child of folder.children) {
+			size += child instanceof TFile ? child.stat.size : child instanceof TFolder ? this.getFolderSize(child) : 0;
+		}
+		return size;
+	}
+
+	/**
+	 * Stop tracking an item, e.g. after its note was deleted from the plugin.
+	 * Stored images no other item uses are moved to the trash.
+	 */
+	async forgetItem(itemId: number | string) {
+		delete this.settings.syncLedger[itemId];
+		delete this.settings.contentRetryQueue[itemId];
+
+		for (const path of releaseItemImages(this.settings.imageIndex, Number(itemId))) {
+			const file = this.app.vault.getAbstractFileByPath(path);
+			if (!file) {
+				continue;
+			}
 			try {
-				await this.app.vault.createFolder(normalizedPath);
+				await this.app.fileManager.trashFile(file);
+				console.debug(`[SyncService] Unused image deleted: ${path}`);
 			} catch (error) {
-				// Ignore "Folder already exists" error
-				// This can happen when multiple operations try to create the same folder simultaneously
-				if (error instanceof Error && !error.message.includes('Folder already exists')) {
-					throw error;
-				}
+				console.error(`[SyncService] Error deleting image ${path}:`, error);
 			}
 		}
 	}
 
-	private async createOrUpdateBookmark(bookmark: PinboxBookmark): Promise<'created' | 'skipped'> {
-		const fileName = this.sanitizeFileName(bookmark.title || String(bookmark.id));
-		const filePath = normalizePath(`${this.syncFolder}/${fileName}.md`);
-		console.debug(`[SyncService] Processing file: ${filePath}`);
+	/**
+	 * Delete an item so that it can be restored: its note, its attachment
+	 * folder and the images only it uses go to TRASH_FOLDER/<id>/ with a
+	 * tombstone, and the Pinbox delete is queued for after the grace period.
+	 * The ledger and image index keep the item until that delete has run.
+	 */
+	async softDeleteItem(file: TFile, id: number): Promise<DeletionEntry> {
+		const adapter = this.app.vault.adapter;
+		const trashPath = getTrashPath(id);
+		if (await adapter.exists(trashPath)) {
+			await adapter.rmdir(trashPath, true);
+		}
+		await adapter.mkdir(trashPath);
+
+		const title: unknown = this.app.metadataCache.getFileCache(file)?.frontmatter?.title;
+		const tombstone: Tombstone = {
+			id,
+			title: typeof title === 'string' && title ? title : file.basename,
+			ledgerEntry: this.settings.syncLedger[id],
+			deletedAt: Date.now(),
+			files: [],
+		};
+		const moveToTrash = async (source: TFile, name: string) => {
+			const target = `${trashPath}/${name}`;
+			const folder = target.substring(0, target.lastIndexOf('/'));
+			if (!await adapter.exists(folder)) {
+				await adapter.mkdir(folder);
+			}
+			// Copied through the adapter, the vault API can't write to hidden folders
+			await adapter.writeBinary(target, await this.app.vault.readBinary(source));
+			tombstone.files.push({ trashPath: target, path: source.path });
+		};
+
+		const images: TFile[] = [];
+		for (const image of Object.values(this.settings.imageIndex.images)) {
+			const imageFile = this.app.vault.getAbstractFileByPath(image.path);
+			if (image.items.every(itemId => itemId === id) && imageFile instanceof TFile) {
+				images.push(imageFile);
+			}
+		}
+		const attachmentFolder = this.app.vault.getAbstractFileByPath(normalizePath(`${this.imageFolder}/${id}`));
+		const attachments: TFile[] = [];
+		const collect = (entry: TAbstractFile) => {
+			if (entry instanceof TFolder) {
+				entry.children.forEach(collect);
+			} else if (entry instanceof TFile) {
+				attachments.push(entry);
+			}
+		};
+		if (attachmentFolder) {
+			collect(attachmentFolder);
+		}
 
-		const existingFile = this.app.vault.getAbstractFileByPath(filePath);
+		await moveToTrash(file, NOTE_IN_TRASH);
+		for (const image of images) {
+			await moveToTrash(image, `images/${image.name}`);
+		}
+		for (const attachment of attachments) {
+			await moveToTrash(attachment, `attachments/${attachment.path.substring(normalizePath(`${this.imageFolder}/${id}`).length + 1)}`);
+		}
+		await adapter.write(`${trashPath}/${TOMBSTONE_FILE_NAME}`, JSON.stringify(tombstone, null, 2));
 
-		if (existingFile instanceof TFile) {
-			// Skip existing file (don't update)
-			console.debug(`[SyncService] Skipping existing file: ${filePath}`);
-			return 'skipped';
-		} else {
-			// Fetch web content if URL exists
-			let webContent: string | null = null;
-			if (bookmark.url) {
-				webContent = await this.fetchWebContent(bookmark.url);
-			}
+		// Everything is copied, now it can leave the vault
+		await this.app.fileManager.trashFile(file);
+		for (const image of images) {
+			await this.app.fileManager.trashFile(image);
+		}
+		if (attachmentFolder) {
+			await this.app.fileManager.trashFile(attachmentFolder);
+		}
 
-			// Generate markdown content with web content
-			let content = this.generateMarkdownContent(bookmark, webContent);
+		const entry: DeletionEntry = {
+			title: tombstone.title,
+			notePath: file.path,
+			deletedAt: tombstone.deletedAt,
+			deleteAfter: tombstone.deletedAt + this.settings.deleteGracePeriod * 60 * 60 * 1000,
+		};
+		this.settings.deletionQueue[id] = entry;
+		console.debug(`[SyncService] Item ${id} moved to ${trashPath}, Pinbox delete due ${new Date(entry.deleteAfter).toISOString()}`);
+		return entry;
+	}
 
-			// Download images if enabled
-			if (this.downloadImages) {
-				content = await this.downloadImagesInContent(content, bookmark.id, filePath);
+	/**
+	 * Undo softDeleteItem: put the note and its files back and drop the queued
+	 * Pinbox delete. A note path taken in the meantime gets a number appended,
+	 * images that are back already are left as they are. A ledger entry lost
+	 * in the meantime comes back from the tombstone. Returns the note.
+	 */
+	async restoreDeletedItem(id: number): Promise<TFile | null> {
+		const adapter = this.app.vault.adapter;
+		const trashPath = getTrashPath(id);
+		const tombstone = JSON.parse(await adapter.read(`${trashPath}/${TOMBSTONE_FILE_NAME}`)) as Tombstone;
+
+		let note: TFile | null = null;
+		for (const { trashPath: source, path } of tombstone.files) {
+			const isNote = source === `${trashPath}/${NOTE_IN_TRASH}`;
+			const folder = path.includes('/') ? path.substring(0, path.lastIndexOf('/')) : '';
+			let target = path;
+			if (this.app.vault.getAbstractFileByPath(target)) {
+				if (!isNote) {
+					continue;
+				}
+				const name = path.substring(folder.length ? folder.length + 1 : 0).replace(/\.md$/, '');
+				target = this.getAvailablePath(folder, name, 'md');
+			}
+			if (folder) {
+				await this.ensureFolderExists(folder);
 			}
+			const file = await this.app.vault.createBinary(target, await adapter.readBinary(source));
+			if (isNote) {
+				note = file;
+			}
+		}
+
+		await adapter.rmdir(trashPath, true);
+		delete this.settings.deletionQueue[id];
+		if (!this.settings.syncLedger[id] && tombstone.ledgerEntry) {
+			this.settings.syncLedger[id] = tombstone.ledgerEntry;
+		}
+		const ledgerEntry = this.settings.syncLedger[id];
+		if (ledgerEntry && note) {
+			ledgerEntry.path = note.path;
+		}
+		this.noteIndex = null;
+		console.debug(`[SyncService] Item ${id} restored${note ? ` to ${note.path}` : ''}`);
+		return note;
+	}
+
+	/**
+	 * Run the queued Pinbox deletes that are due, or all of them with `force`,
+	 * in one batch. Deleted items are forgotten and their trash folders go to
+	 * the system trash. Returns the number of items deleted; throws when
+	 * Pinbox refuses, the queue is kept for the next run.
+	 */
+	async runDeletionQueue(force: boolean): Promise<number> {
+		const ids = getDueDeletions(this.settings.deletionQueue, force);
+		if (ids.length === 0) {
+			return 0;
+		}
 
-			// Create new file
-			console.debug(`[SyncService] Creating new file: ${filePath}`);
-			await this.app.vault.create(filePath, content);
-			return 'created';
+		console.debug(`[SyncService] Deleting ${ids.length} queued items in Pinbox`);
+		if (!await this.api.deleteItems(ids)) {
+			throw new Error(`Failed to delete ${ids.length} queued items`);
+		}
+
+		const adapter = this.app.vault.adapter;
+		for (const id of ids) {
+			delete this.settings.deletionQueue[id];
+			await this.forgetItem(id);
+			try {
+				const trashPath = getTrashPath(id);
+				if (await adapter.exists(trashPath) && !await adapter.trashSystem(trashPath)) {
+					await adapter.trashLocal(trashPath);
+				}
+			} catch (error) {
+				console.error(`[SyncService] Error emptying the trash folder of item ${id}:`, error);
+			}
 		}
+		return ids.length;
 	}
 
 	private sanitizeFileName(name: string): string {
@@ -135,90 +1539,125 @@ export class SyncService {
 			.substring(0, 200); // Limit length
 	}
 
+	/**
+	 * Download an image into the content-addressed store and count it as used by
+	 * the item. An URL downloaded before is not fetched again while its file
+	 * exists. Returns the vault path of the image.
+	 */
 	private async downloadImage(imageUrl: string, bookmarkId: number): Promise<string | null> {
+		const index = this.settings.imageIndex;
+		const knownHash = findImageByUrl(index, imageUrl);
+		if (knownHash && this.app.vault.getAbstractFileByPath(index.images[knownHash].path) instanceof TFile) {
+			console.debug(`[SyncService] Image already downloaded: ${index.images[knownHash].path}`);
+			addImageReference(index, knownHash, index.images[knownHash].path, imageUrl, bookmarkId);
+			return index.images[knownHash].path;
+		}
+
 		try {
 			console.debug(`[SyncService] Downloading image: ${imageUrl}`);
 
-			// Create subfolder for this bookmark's images (relative to vault root)
-			const bookmarkImageFolder = normalizePath(`${this.imageFolder}/${bookmarkId}`);
-			await this.ensureFolderExists(bookmarkImageFolder);
-
-			// Extract file extension from URL
-			let extension = 'jpg'; // default extension
-
-			// Try to get extension from query parameters (e.g., wx_fmt=png)
-			try {
-				const url = new URL(imageUrl);
-				const wxFmt = url.searchParams.get('wx_fmt');
-				const fmt = url.searchParams.get('fmt');
-				const format = url.searchParams.get('format');
-				const tp = url.searchParams.get('tp'); // WeChat also uses tp parameter
-
-				// Check various format parameters, but skip invalid values like 'other'
-				if (wxFmt && wxFmt !== 'other' && /^(jpg|jpeg|png|gif|webp|bmp|svg|ico)$/i.test(wxFmt)) {
-					extension = wxFmt.toLowerCase();
-				} else if (tp && /^(jpg|jpeg|png|gif|webp|bmp|svg|ico)$/i.test(tp)) {
-					// tp parameter often contains the real format when wx_fmt=other
-					extension = tp.toLowerCase();
-				} else if (fmt && /^(jpg|jpeg|png|gif|webp|bmp|svg|ico)$/i.test(fmt)) {
-					extension = fmt.toLowerCase();
-				} else if (format && /^(jpg|jpeg|png|gif|webp|bmp|svg|ico)$/i.test(format)) {
-					extension = format.toLowerCase();
-				} else {
-					// Try to get extension from filename in path
-					const pathname = url.pathname;
-					const pathParts = pathname.split('/');
-					const fileName = pathParts[pathParts.length - 1];
-
-					// Only extract extension if filename contains a dot
-					if (fileName.includes('.')) {
-						const fileExtension = fileName.split('.').pop();
-
-						// Validate extension (common image formats)
-						if (fileExtension && /^(jpg|jpeg|png|gif|webp|bmp|svg|ico)$/i.test(fileExtension)) {
-							extension = fileExtension.toLowerCase();
-						}
-					}
-				}
-			} catch (error) {
-				console.debug('[SyncService] Error parsing image URL, using default extension:', error);
-			}
-
-			const timestamp = Date.now();
-			const fileName = `${timestamp}.${extension}`;
-			const filePath = normalizePath(`${bookmarkImageFolder}/${fileName}`);
-
-			// Check if file already exists
-			const existingFile = this.app.vault.getAbstractFileByPath(filePath);
-			if (existingFile) {
-				console.debug(`[SyncService] Image already exists: ${filePath}`);
-				return `${this.imageFolder}/${bookmarkId}/${fileName}`;
-			}
-
 			// Download image
-			const response = await requestUrl({
+			const response = await this.scheduler.request({
 				url: imageUrl,
 				method: 'GET',
 				headers: {
 					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
 				}
-			});
+			}, 'web', this.signal);
 
 			if (response.status === 200 && response.arrayBuffer) {
-				// Save image file
-				await this.app.vault.createBinary(filePath, response.arrayBuffer);
-				console.debug(`[SyncService] Image saved: ${filePath}`);
-				return `${this.imageFolder}/${bookmarkId}/${fileName}`;
+				const image = await this.prepareImage(response.arrayBuffer, getHeader(response.headers, 'content-type').toLowerCase(), imageUrl, bookmarkId, true);
+				return image ? await this.storeImage(image.data, image.extension, imageUrl, bookmarkId) : null;
 			} else {
 				console.error(`[SyncService] Failed to download image: HTTP ${response.status}`);
+				this.recordFailure({ stage: 'image', id: bookmarkId, title: '', url: imageUrl, reason: `HTTP ${response.status}` });
 				return null;
 			}
 		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				throw error;
+			}
 			console.error(`[SyncService] Error downloading image ${imageUrl}:`, error);
+			this.recordFailure({ stage: 'image', id: bookmarkId, title: '', url: imageUrl, reason: error instanceof Error ? error.message : String(error) });
 			return null;
 		}
 	}
 
+	/**
+	 * Check a downloaded image and re-encode it if it is worth it. The format
+	 * comes from the file header, then the Content-Type. Returns null for
+	 * responses that are not images and, with `applyLimits`, for images outside
+	 * the size limits; those keep their remote link.
+	 */
+	private async prepareImage(data: ArrayBuffer, contentType: string, imageUrl: string, bookmarkId: number, applyLimits: boolean): Promise<PreparedImage | null> {
+		const info = sniffImage(data);
+		if (!info) {
+			if (!contentType.startsWith('image/')) {
+				console.error(`[SyncService] Not an image (${contentType || 'no Content-Type'}): ${imageUrl}`);
+				this.recordFailure({ stage: 'image', id: bookmarkId, title: '', url: imageUrl, reason: `不是图片（${contentType || '未知类型'}）` }); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				return null;
+			}
+			// A format we can't read the header of, e.g. HEIC: store it as it is
+			const extension = getImageExtension(contentType, imageUrl);
+			return { data, extension, mimeType: contentType.split(';')[0].trim() };
+		}
+
+		if (applyLimits) {
+			const reason = checkImageLimits(data.byteLength, info, {
+				maxSize: this.settings.maxImageSize * 1024,
+				minDimension: this.settings.minImageDimension,
+			});
+			if (reason) {
+				console.debug(`[SyncService] Skipping image, ${reason}: ${imageUrl}`);
+				return null;
+			}
+		}
+
+		if (this.settings.compressImages && shouldCompress(data.byteLength, info, this.settings.compressMaxDimension)) {
+			try {
+				const compressed = await compressImage(data, info, this.settings.compressFormat, this.settings.compressMaxDimension);
+				if (compressed) {
+					console.debug(`[SyncService] Image compressed from ${data.byteLength} to ${compressed.data.byteLength} bytes: ${imageUrl}`);
+					return { data: compressed.data, extension: compressed.format, mimeType: getImageMimeType(compressed.format) };
+				}
+			} catch (error) {
+				// Keep the original, the platform can't decode this one
+				console.warn(`[SyncService] Error compressing image ${imageUrl}:`, error);
+			}
+		}
+		return { data, extension: info.format, mimeType: getImageMimeType(info.format) };
+	}
+
+	/**
+	 * Save image bytes as imageFolder/<hash>.<extension>, unless the same image
+	 * is already there, and record it in the image index.
+	 */
+	private async storeImage(data: ArrayBuffer, extension: string, imageUrl: string, bookmarkId: number): Promise<string> {
+		const hash = await hashContent(data);
+		const known = this.settings.imageIndex.images[hash];
+		let filePath = known && this.app.vault.getAbstractFileByPath(known.path) instanceof TFile
+			? known.path
+			: normalizePath(`${this.imageFolder}/${hash}.${extension}`);
+
+		if (!this.app.vault.getAbstractFileByPath(filePath)) {
+			await this.ensureFolderExists(this.imageFolder);
+			try {
+				await this.app.vault.createBinary(filePath, data);
+				console.debug(`[SyncService] Image saved: ${filePath}`);
+			} catch (error) {
+				// The same image twice in one article, the other download wrote it first
+				if (!this.app.vault.getAbstractFileByPath(filePath)) {
+					throw error;
+				}
+			}
+		} else {
+			console.debug(`[SyncService] Same image already stored: ${filePath}`);
+		}
+
+		addImageReference(this.settings.imageIndex, hash, filePath, imageUrl, bookmarkId);
+		return filePath;
+	}
+
 	private async downloadImagesInContent(content: string, bookmarkId: number, markdownFilePath: string): Promise<string> {
 		if (!this.downloadImages) {
 			console.debug(`[SyncService] Image download is disabled for bookmark ${bookmarkId}`);
@@ -231,6 +1670,7 @@ export class SyncService {
 		// Match markdown image syntax: ![alt](url)
 		const imageRegex = /!\[([^\]]*)\]\(([^)]+)\)/g;
 		let match;
+		const images: Array<{ fullMatch: string; imageUrl: string }> = [];
 		const replacements: Array<{ original: string; replacement: string }> = [];
 		let matchCount = 0;
 
@@ -246,16 +1686,36 @@ export class SyncService {
 				console.debug(`[SyncService] Skipping non-HTTP image: ${imageUrl}`);
 				continue;
 			}
+			// Video embeds use the image syntax too
+			if (parseVideoUrl(imageUrl)) {
+				continue;
+			}
+			images.push({ fullMatch, imageUrl });
+		}
 
-			// Download image
+		const maxImages = this.settings.maxImagesPerArticle;
+		if (maxImages > 0 && images.length > maxImages) {
+			console.debug(`[SyncService] Downloading the first ${maxImages} of ${images.length} images`);
+			images.splice(maxImages);
+		}
+
+		// Download images, the scheduler limits how many run at once
+		this.reportProgress({ imagesTotal: this.progress.imagesTotal + images.length });
+		const downloaded = await Promise.all(images.map(async ({ imageUrl }) => {
 			console.debug(`[SyncService] Downloading image from: ${imageUrl}`);
-			const vaultRelativeImagePath = await this.downloadImage(imageUrl, bookmarkId);
+			const imagePath = await this.downloadImage(imageUrl, bookmarkId);
+			this.reportProgress({ imagesDownloaded: this.progress.imagesDownloaded + 1 });
+			return imagePath;
+		}));
+
+		for (let i = 0; i < images.length; i++) {
+			const { fullMatch, imageUrl } = images[i];
+			const vaultRelativeImagePath = downloaded[i];
 			if (vaultRelativeImagePath) {
-				// Extract filename from path - Obsidian can find files by name alone
-				const fileName = vaultRelativeImagePath.split('/').pop() || vaultRelativeImagePath;
-				const replacement = `![[${fileName}]]`;
+				// The full path, a name alone could match another file in the vault
+				const replacement = `![[${vaultRelativeImagePath}]]`;
 				replacements.push({ original: fullMatch, replacement });
-				console.debug(`[SyncService] Image downloaded successfully: ${fileName}`);
+				console.debug(`[SyncService] Image downloaded successfully: ${vaultRelativeImagePath}`);
 			} else {
 				console.debug(`[SyncService] Failed to download image: ${imageUrl}`);
 			}
@@ -314,8 +1774,409 @@ export class SyncService {
 		return relativePath;
 	}
 
-	private async fetchWebContent(url: string, retries: number = 3): Promise<string | null> {
+	/**
+	 * Fetch the page of an item: counts it in the progress and records a failure
+	 * in the sync report. With `queueRetry` a failure is queued for a retry and a
+	 * success drops the item from the queue; pass false when the note keeps the
+	 * content it has either way.
+	 */
+	private async fetchItemContent(id: number, url: string, title: string, itemType: string = '', queueRetry = true): Promise<WebContentResult> {
+		const result = await this.fetchContentOfKind(id, url, getContentKind(url, itemType));
+		this.reportProgress({ articlesFetched: this.progress.articlesFetched + 1 });
+		if (result.error) {
+			this.recordFailure({ stage: 'content', id, title, url, reason: result.error });
+			if (queueRetry) {
+				recordFailedAttempt(this.settings.contentRetryQueue, id, url, title, result.error);
+			}
+		} else if (queueRetry) {
+			delete this.settings.contentRetryQueue[id];
+		}
+
+		if (result.content && result.html && this.settings.saveHtmlSnapshot) {
+			try {
+				await this.saveSnapshot(id, url, title, result.html, result.metadata ?? {});
+			} catch (error) {
+				if (error instanceof RequestCancelledError) {
+					throw error;
+				}
+				console.error(`[SyncService] Error saving the snapshot of ${url}:`, error);
+				this.recordFailure({ stage: 'snapshot', id, title, url, reason: error instanceof Error ? error.message : String(error) });
+			}
+		}
+		return result;
+	}
+
+	/**
+	 * Save the article as a single HTML file in the item's attachment folder.
+	 * Images are inlined as data URIs or downloaded next to it, see
+	 * settings.snapshotImages.
+	 */
+	private async saveSnapshot(id: number, url: string, title: string, html: string, metadata: ArticleMetadata) {
+		const doc = new DOMParser().parseFromString(html, 'text/html');
+		doc.querySelectorAll('script, style, noscript, iframe, link').forEach(el => el.remove());
+		this.resolveLazyImages(doc);
+		const extracted = extractContent(doc, url);
+		if (!extracted) {
+			return;
+		}
+
+		const folder = normalizePath(`${this.imageFolder}/${id}`);
+		await this.ensureFolderExists(folder);
+
+		const images = prepareSnapshotRoot(extracted.root, url);
+		if (this.settings.maxImagesPerArticle > 0) {
+			// The rest stay links to the site
+			images.splice(this.settings.maxImagesPerArticle);
+		}
+		await Promise.all(images.map(async (img) => {
+			const src = img.getAttribute('src') ?? '';
+			if (!/^https?:/.test(src)) {
+				return;
+			}
+			if (this.settings.snapshotImages === 'local') {
+				const imagePath = await this.downloadImage(src, id);
+				if (imagePath) {
+					img.setAttribute('src', this.getRelativePath(this.getSnapshotPath(id), imagePath).split('/').map(encodeURIComponent).join('/'));
+				}
+			} else {
+				const dataUri = await this.fetchImageDataUri(src, url, id);
+				if (dataUri) {
+					img.setAttribute('src', dataUri);
+				}
+			}
+		}));
+
+		const snapshot = renderSnapshot(extracted.root, { title, url, savedAt: Date.now(), metadata });
+		const path = this.getSnapshotPath(id);
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, snapshot);
+		} else {
+			await this.app.vault.create(path, snapshot);
+		}
+		console.debug(`[SyncService] Snapshot saved: ${path}`);
+	}
+
+	// Images that fail stay as links to the site
+	private async fetchImageDataUri(imageUrl: string, pageUrl: string, bookmarkId: number): Promise<string | null> {
+		try {
+			const response = await this.scheduler.request({
+				url: imageUrl,
+				method: 'GET',
+				headers: { ...this.getPageRequestHeaders(pageUrl), 'Accept': 'image/*,*/*;q=0.8' },
+				throw: false
+			}, 'web', this.signal);
+			if (response.status !== 200) {
+				console.warn(`[SyncService] Snapshot image failed: HTTP ${response.status} ${imageUrl}`);
+				return null;
+			}
+			const image = await this.prepareImage(response.arrayBuffer, getHeader(response.headers, 'content-type').toLowerCase(), imageUrl, bookmarkId, true);
+			return image ? `data:${image.mimeType};base64,${arrayBufferToBase64(image.data)}` : null;
+		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				throw error;
+			}
+			console.warn(`[SyncService] Error fetching snapshot image ${imageUrl}:`, error);
+			return null;
+		}
+	}
+
+	private getSnapshotPath(id: number): string {
+		return normalizePath(`${this.imageFolder}/${id}/${SNAPSHOT_FILE_NAME}`);
+	}
+
+	// Link for the note's frontmatter, empty when the item has no snapshot
+	private getSnapshotLink(id: number): string {
+		const path = this.getSnapshotPath(id);
+		return this.app.vault.getAbstractFileByPath(path) instanceof TFile ? `[[${path}]]` : '';
+	}
+
+	private async fetchContentOfKind(id: number, url: string, kind: ContentKind): Promise<WebContentResult> {
+		switch (kind) {
+			case 'pdf':
+			case 'image':
+				return await this.fetchAttachment(id, url, kind);
+			case 'video':
+				return await this.fetchVideoContent(url);
+			default:
+				return await this.fetchWebContent(url);
+		}
+	}
+
+	/**
+	 * Download a PDF or image URL into the item's attachment folder and embed
+	 * it. Pages that turn out to be HTML go through fetchWebContent instead.
+	 */
+	private async fetchAttachment(id: number, url: string, kind: 'pdf' | 'image'): Promise<WebContentResult> {
+		try {
+			console.debug(`[SyncService] Downloading ${kind} attachment: ${url}`);
+			const response = await this.scheduler.request({
+				url,
+				method: 'GET',
+				headers: {
+					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+				},
+				throw: false
+			}, 'web', this.signal);
+
+			if (response.status !== 200) {
+				console.error(`[SyncService] Failed to download attachment: HTTP ${response.status}`);
+				return { content: null, error: `HTTP ${response.status}` };
+			}
+
+			const contentType = getHeader(response.headers, 'content-type').toLowerCase();
+			if (contentType.includes('text/html')) {
+				console.debug(`[SyncService] ${url} is a web page, not a ${kind}`);
+				return await this.fetchWebContent(url);
+			}
+
+			if (kind === 'image') {
+				// The item is the image, the limits for article images don't apply
+				const image = await this.prepareImage(response.arrayBuffer, contentType, url, id, false);
+				if (!image) {
+					return { content: null, error: `不是图片（${contentType || '未知类型'}）` }; // /skip I need use Chinese due to the majority of the target users is Chinese.
+				}
+				const imagePath = await this.storeImage(image.data, image.extension, url, id);
+				return { content: `![[${imagePath}]]`, error: null, metadata: {} };
+			}
+
+			// Named by content, so fetching the same PDF again reuses the file
+			const folder = normalizePath(`${this.imageFolder}/${id}`);
+			const filePath = normalizePath(`${folder}/${await hashContent(response.arrayBuffer)}.pdf`);
+			if (this.app.vault.getAbstractFileByPath(filePath)) {
+				console.debug(`[SyncService] Same attachment already stored: ${filePath}`);
+			} else {
+				await this.ensureFolderExists(folder);
+				await this.app.vault.createBinary(filePath, response.arrayBuffer);
+				console.debug(`[SyncService] Attachment saved: ${filePath}`);
+			}
+			return { content: `![[${filePath}]]`, error: null, metadata: {} };
+		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				throw error;
+			}
+			console.error(`[SyncService] Error downloading attachment ${url}:`, error);
+			return { content: null, error: `网络错误：${error instanceof Error ? error.message : String(error)}` }; // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+	}
+
+	/**
+	 * Bilibili and YouTube: the player plus what the site's API says about the
+	 * video. Without the metadata the player is still embedded.
+	 */
+	private async fetchVideoContent(url: string): Promise<WebContentResult> {
+		const source = parseVideoUrl(url);
+		if (!source) {
+			return await this.fetchWebContent(url);
+		}
+
+		let metadata: ArticleMetadata = {};
+		let description = '';
+		try {
+			const response = await this.scheduler.request({ url: source.metadataUrl, method: 'GET', throw: false }, 'web', this.signal);
+			if (response.status === 200) {
+				({ metadata, description } = parseVideoMetadata(source, response.json));
+			} else {
+				console.warn(`[SyncService] Video metadata request failed: HTTP ${response.status}`);
+			}
+		} catch (error) {
+			if (error instanceof RequestCancelledError) {
+				throw error;
+			}
+			console.warn(`[SyncService] Error fetching video metadata for ${url}:`, error);
+		}
+
+		const content = description ? `${source.embed}\n\n${description}` : source.embed;
+		return {
+			content,
+			error: null,
+			metadata: mergeMetadata(metadata, { canonicalUrl: source.canonicalUrl }),
+		};
+	}
+
+	/**
+	 * Fetch every page in the retry queue again, whether it is due or not.
+	 * Used by the "Retry failed content fetches" command.
+	 */
+	async retryFailedContent(signal?: AbortSignal): Promise<{ succeeded: number; failed: number }> {
+		this.noteIndex = null;
+		this.noteTemplate = null;
+		this.signal = signal;
+		try {
+			return await this.retryQueuedContent(true);
+		} finally {
+			this.signal = undefined;
+		}
+	}
+
+	/**
+	 * Fetch the web content of queued items again and put it into their notes in
+	 * place of the fallback warning. Only the block between the content markers
+	 * changes, the frontmatter and the user's edits stay as they are.
+	 */
+	private async retryQueuedContent(force: boolean): Promise<{ succeeded: number; failed: number }> {
+		const queue = this.settings.contentRetryQueue;
+		const ids = getRetryIds(queue, force);
+		let succeeded = 0;
+		let failed = 0;
+		if (ids.length === 0) {
+			return { succeeded, failed };
+		}
+
+		console.debug(`[SyncService] Retrying web content of ${ids.length} items`);
+		await mapConcurrent(ids, this.settings.webConcurrency, async (id) => {
+			throwIfCancelled(this.signal);
+			const entry = queue[id];
+			const file = this.findNoteById(id);
+			if (!entry || !file) {
+				delete queue[id];
+				return;
+			}
+
+			const result = await this.fetchItemContent(id, entry.url, entry.title);
+			let content = result.content;
+			if (!content) {
+				failed++;
+				return;
+			}
+			if (this.downloadImages) {
+				content = await this.downloadImagesInContent(content, id, file.path);
+			}
+
+			if (await this.replaceContentBlock(file, content)) {
+				await this.writeArticleMetadata(file, id, result.metadata ?? {});
+				console.debug(`[SyncService] Filled in the web content of ${file.path}`);
+				succeeded++;
+				if (this.report) {
+					addReportItem(this.report, 'updated', { id, title: entry.title, path: file.path });
+				}
+			} else {
+				console.warn(`[SyncService] ${file.path} has no content markers, can't put the fetched content in`);
+			}
+		});
+
+		return { succeeded, failed };
+	}
+
+	/**
+	 * Fetch the page behind a note again, for the re-fetch command. Returns null
+	 * when the note has no Pinbox id, no url or no content block to replace.
+	 * The retry queue is left alone, the note only changes once the user
+	 * accepts the new content, see replaceNoteContent.
+	 */
+	async fetchNoteContent(file: TFile, signal?: AbortSignal): Promise<RefetchResult | null> {
+		this.noteTemplate = null;
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const id = Number(frontmatter?.id);
+		const url: unknown = frontmatter?.url;
+		if (!id || typeof url !== 'string' || !url) {
+			return null;
+		}
+
+		const { body } = this.splitFrontmatter(await this.app.vault.read(file));
+		const current = this.extractContentBlock(body);
+		if (current === null) {
+			return null;
+		}
+
+		const itemType: unknown = frontmatter?.item_type;
+		const kind = getContentKind(url, typeof itemType === 'string' ? itemType : '');
+		if (kind === 'text') {
+			return null;
+		}
+
+		const title: unknown = frontmatter?.title;
+		this.signal = signal;
+		try {
+			const result = await this.fetchItemContent(id, url, typeof title === 'string' ? title : file.basename, typeof itemType === 'string' ? itemType : '', false);
+			return { id, current, ...result };
+		} finally {
+			this.signal = undefined;
+		}
+	}
+
+	/**
+	 * Put re-fetched content into a note, optionally downloading its images first.
+	 * Returns false when the note's content block is gone.
+	 */
+	async replaceNoteContent(file: TFile, id: number, content: string, downloadImages: boolean, metadata: ArticleMetadata = {}): Promise<boolean> {
+		if (downloadImages) {
+			content = await this.downloadImagesInContent(content, id, file.path);
+		}
+		if (!await this.replaceContentBlock(file, content)) {
+			return false;
+		}
+		await this.writeArticleMetadata(file, id, metadata);
+		delete this.settings.contentRetryQueue[id];
+		return true;
+	}
+
+	/**
+	 * Store the metadata of a page whose content block was replaced on its own.
+	 * Only keys the note template writes are touched.
+	 */
+	private async writeArticleMetadata(file: TFile, id: number, metadata: ArticleMetadata) {
+		const managedKeys = getTemplateFrontmatterKeys(await this.getNoteTemplate());
+		const context: Record<string, string | number> = { ...getMetadataContext(metadata), snapshot: this.getSnapshotLink(id) };
+		await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+			for (const key of Object.keys(context)) {
+				if (managedKeys.includes(key) && context[key] !== '') {
+					frontmatter[key] = context[key];
+				}
+			}
+		});
+	}
+
+	/**
+	 * Replace what is between the content markers, above the user content marker.
+	 * Returns false when the note has no such block.
+	 */
+	private async replaceContentBlock(file: TFile, content: string): Promise<boolean> {
+		let replaced = false;
+		await this.app.vault.process(file, (data) => {
+			const { frontmatter, body } = this.splitFrontmatter(data);
+			const markerMatch = USER_CONTENT_MARKER_REGEX.exec(body);
+			const managedEnd = markerMatch ? markerMatch.index : body.length;
+			const start = body.indexOf(CONTENT_START_MARKER);
+			const end = body.indexOf(CONTENT_END_MARKER);
+			if (start === -1 || end === -1 || end < start || end > managedEnd) {
+				return data;
+			}
+
+			replaced = true;
+			const before = body.substring(0, start + CONTENT_START_MARKER.length);
+			const after = body.substring(end);
+			return `${frontmatter}${before}\n${content}\n${after}`;
+		});
+		return replaced;
+	}
+
+	// Browser-like headers for fetching a page, and for the images of a WeChat article
+	private getPageRequestHeaders(url: string): Record<string, string> {
+		const headers: Record<string, string> = {
+			'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+			'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+			'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
+			'Accept-Encoding': 'gzip, deflate, br',
+			'Cache-Control': 'no-cache',
+			'Pragma': 'no-cache',
+		};
+
+		// Special headers for WeChat articles
+		if (url.includes('mp.weixin.qq.com')) {
+			headers['Referer'] = 'https://mp.weixin.qq.com/';
+			headers['Sec-Fetch-Dest'] = 'document';
+			headers['Sec-Fetch-Mode'] = 'navigate';
+			headers['Sec-Fetch-Site'] = 'none';
+			headers['Upgrade-Insecure-Requests'] = '1';
+		}
+		return headers;
+	}
+
+	private async fetchWebContent(url: string, retries: number = 3): Promise<WebContentResult> {
 		let lastError: Error | null = null;
+		// Why the last attempt failed, in words for the sync report
+		let failureReason = '未知错误'; // /skip I need use Chinese due to the majority of the target users is Chinese.
 
 		// Upgrade HTTP to HTTPS for WeChat articles to avoid ERR_BLOCKED_BY_CLIENT
 		if (url.startsWith('http://mp.weixin.qq.com')) {
@@ -327,32 +2188,13 @@ export class SyncService {
 			try {
 				console.debug(`[SyncService] Fetching web content from: ${url} (attempt ${attempt}/${retries})`);
 
-				// Special headers for WeChat articles
 				const isWechatArticle = url.includes('mp.weixin.qq.com');
-				const headers: Record<string, string> = {
-					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-					'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-					'Accept-Language': 'zh-CN,zh;q=0.9,en;q=0.8',
-					'Accept-Encoding': 'gzip, deflate, br',
-					'Cache-Control': 'no-cache',
-					'Pragma': 'no-cache',
-				};
-
-				if (isWechatArticle) {
-					// Add WeChat-specific headers
-					headers['Referer'] = 'https://mp.weixin.qq.com/';
-					headers['Sec-Fetch-Dest'] = 'document';
-					headers['Sec-Fetch-Mode'] = 'navigate';
-					headers['Sec-Fetch-Site'] = 'none';
-					headers['Upgrade-Insecure-Requests'] = '1';
-				}
-
-				const response = await requestUrl({
+				const response = await this.scheduler.request({
 					url,
 					method: 'GET',
-					headers,
+					headers: this.getPageRequestHeaders(url),
 					throw: false
-				});
+				}, 'web', this.signal);
 
 				if (response.status !== 200) {
 					console.error(`[SyncService] Failed to fetch web content: HTTP ${response.status}`);
@@ -360,6 +2202,7 @@ export class SyncService {
 					console.error(`[SyncService] Response headers:`, response.headers);
 					console.error(`[SyncService] Response body preview:`, response.text?.substring(0, 500));
 					lastError = new Error(`HTTP ${response.status}`);
+					failureReason = `HTTP ${response.status}`;
 
 					// Retry on server errors (5xx) or specific client errors
 					if (response.status >= 500 || response.status === 429 || response.status === 408) {
@@ -370,7 +2213,7 @@ export class SyncService {
 							continue;
 						}
 					}
-					return null;
+					return { content: null, error: failureReason };
 				}
 
 				const html = response.text;
@@ -380,20 +2223,26 @@ export class SyncService {
 				if (!html || html.trim().length === 0) {
 					console.error(`[SyncService] Empty response body`);
 					lastError = new Error('Empty response');
-					return null;
+					return { content: null, error: '网页返回了空内容' }; // /skip I need use Chinese due to the majority of the target users is Chinese.
 				}
 
 				// Check for WeChat error pages
 				if (isWechatArticle && (html.includes('该内容已被发布者删除') || html.includes('链接已过期') || html.includes('此内容因违规无法查看'))) { // /skip I need use Chinese due to the majority of the target users is Chinese.
 					console.error(`[SyncService] WeChat article is not accessible (deleted, expired, or blocked)`);
 					lastError = new Error('WeChat article not accessible');
-					return null;
+					return { content: null, error: '微信文章已被删除、过期或无法查看' }; // /skip I need use Chinese due to the majority of the target users is Chinese.
 				}
 
 				console.debug(`[SyncService] Converting HTML to markdown...`);
-				const markdown = this.htmlToMarkdown(html);
+				const { markdown, metadata } = this.htmlToMarkdown(html, url);
 				console.debug(`[SyncService] Conversion complete, markdown length: ${markdown.length} characters`);
 
+				// htmlToMarkdown returns an empty string when it fails
+				if (markdown.trim().length === 0) {
+					console.error(`[SyncService] No content could be extracted from the page`);
+					return { content: null, error: '无法从网页中解析出正文' }; // /skip I need use Chinese due to the majority of the target users is Chinese.
+				}
+
 				// Check if we got a meaningful content or just loading placeholders
 				const loadingIndicators = [
 					'loading...',
@@ -430,11 +2279,11 @@ export class SyncService {
 							await new Promise(resolve => setTimeout(resolve, delay));
 							continue;
 						} else {
-							// On last attempt, return null to indicate failure
+							// On last attempt, report the failure
 							console.error(`[SyncService] Failed to fetch actual content after ${retries} attempts`);
 							console.error(`[SyncService] The page may require JavaScript to load content`);
 							console.error(`[SyncService] URL will be saved but content could not be fetched: ${url}`);
-							return null;
+							return { content: null, error: '页面只有加载中的占位内容，可能需要 JavaScript 才能显示' }; // /skip I need use Chinese due to the majority of the target users is Chinese.
 						}
 					} else {
 						console.warn(`[SyncService] Content is short but doesn't seem to be a loading placeholder, will use it`);
@@ -442,10 +2291,14 @@ export class SyncService {
 				}
 
 				console.debug(`[SyncService] Successfully fetched web content (${markdown.length} characters)`);
-				return markdown;
+				return { content: markdown, error: null, metadata, html };
 			} catch (error) {
+				if (error instanceof RequestCancelledError) {
+					throw error;
+				}
 				console.error(`[SyncService] Error fetching web content (attempt ${attempt}/${retries}):`, error);
 				lastError = error as Error;
+				failureReason = `网络错误：${error instanceof Error ? error.message : String(error)}`; // /skip I need use Chinese due to the majority of the target users is Chinese.
 
 				// Retry on network errors
 				if (attempt < retries) {
@@ -458,44 +2311,51 @@ export class SyncService {
 		}
 
 		console.error(`[SyncService] Failed to fetch web content after ${retries} attempts:`, lastError);
-		return null;
+		return { content: null, error: failureReason };
+	}
+
+	// Process images to handle lazy loading and data attributes
+	private resolveLazyImages(doc: Document) {
+		doc.querySelectorAll('img').forEach(img => {
+			// Handle WeChat lazy loading images (data-src)
+			const dataSrc = img.getAttribute('data-src');
+			if (dataSrc && !img.getAttribute('src')) {
+				img.setAttribute('src', dataSrc);
+			}
+
+			// Handle other lazy loading attributes
+			const dataOriginal = img.getAttribute('data-original');
+			if (dataOriginal && !img.getAttribute('src')) {
+				img.setAttribute('src', dataOriginal);
+			}
+
+			// Ensure alt text exists for better markdown
+			if (!img.getAttribute('alt')) {
+				const title = img.getAttribute('title') || 'image';
+				img.setAttribute('alt', title);
+			}
+		});
 	}
 
-	private htmlToMarkdown(html: string): string {
+	private htmlToMarkdown(html: string, url: string): { markdown: string; metadata: ArticleMetadata } {
 		try {
 			// Create a temporary DOM element to parse HTML
 			const parser = new DOMParser();
 			const doc = parser.parseFromString(html, 'text/html');
 
+			// Before the scripts go, JSON-LD and WeChat's variables live in them
+			const pageMetadata = extractArticleMetadata(doc, url);
+
 			// Remove script and style elements
 			const scriptsAndStyles = doc.querySelectorAll('script, style, noscript, iframe');
 			scriptsAndStyles.forEach(el => el.remove());
 
-			// Process images to handle lazy loading and data attributes
-			const images = doc.querySelectorAll('img');
-			images.forEach(img => {
-				// Handle WeChat lazy loading images (data-src)
-				const dataSrc = img.getAttribute('data-src');
-				if (dataSrc && !img.getAttribute('src')) {
-					img.setAttribute('src', dataSrc);
-				}
-
-				// Handle other lazy loading attributes
-				const dataOriginal = img.getAttribute('data-original');
-				if (dataOriginal && !img.getAttribute('src')) {
-					img.setAttribute('src', dataOriginal);
-				}
-
-				// Ensure alt text exists for better markdown
-				if (!img.getAttribute('alt')) {
-					const title = img.getAttribute('title') || 'image';
-					img.setAttribute('alt', title);
-				}
-			});
+			this.resolveLazyImages(doc);
 
-			// Get the body content
-			const bodyElement = doc.body;
-			if (!bodyElement) return '';
+			// Find the article, site extractors first, then the generic scoring
+			const extracted = extractContent(doc, url);
+			if (!extracted) return { markdown: '', metadata: pageMetadata };
+			console.debug(`[SyncService] Content extracted with the ${extracted.extractor} extractor`, extracted.metadata);
 
 			// Initialize Turndown service
 			const turndownService = new TurndownService({
@@ -547,7 +2407,7 @@ export class SyncService {
 			});
 
 			// Convert to markdown
-			let markdown = turndownService.turndown(bodyElement.innerHTML);
+			let markdown = turndownService.turndown(extracted.root.innerHTML);
 
 			// Remove WeChat article footer (starting from "预览时标签不可点") // /skip I need use Chinese due to the majority of the target users is Chinese.
 			const footerMarkers = [
@@ -582,89 +2442,116 @@ export class SyncService {
 				// Remove blank lines at the very start and end
 				.trim();
 
-			return markdown;
+			// What the site extractor found is more specific than the page's own tags
+			const metadata = mergeMetadata(extracted.metadata, pageMetadata);
+			metadata.wordCount = countWords(markdown);
+			return { markdown, metadata };
 		} catch (error) {
 			console.error('[SyncService] Error converting HTML to markdown:', error);
-			return '';
+			return { markdown: '', metadata: {} };
 		}
 	}
 
-	private generateMarkdownContent(bookmark: PinboxBookmark, webContent: string | null = null): string {
-		const lines: string[] = [];
-
-		// Frontmatter (YAML metadata)
-		lines.push('---');
-		lines.push(`id: ${bookmark.id}`);
-		lines.push(`title: "${(bookmark.title || 'Untitled').replace(/"/g, '\\"')}"`);
-		lines.push(`url: "${bookmark.url}"`);
-		lines.push(`item_type: ${bookmark.item_type || 'unknown'}`);
-		lines.push(`created_at: ${bookmark.created_at}`);
-
-		if (bookmark.tags && bookmark.tags.length > 0) {
-			const tags = bookmark.tags.map(tag => {
-				if (typeof tag === 'string') {
-					return tag;
-				} else if (tag && tag.name) {
-					return tag.name;
-				}
-				return '';
-			}).filter(t => t);
-
-			if (tags.length > 0) {
-				lines.push('tags:');
-				tags.forEach(tag => {
-					lines.push(`  - ${tag}`);
-				});
+	/**
+	 * The note template in use: the vault file from settings.noteTemplatePath if it
+	 * exists, else the template from the settings tab, else the built-in one.
+	 */
+	async loadNoteTemplate(): Promise<string> {
+		const templatePath = this.settings.noteTemplatePath.trim();
+		if (templatePath) {
+			const file = this.app.vault.getAbstractFileByPath(normalizePath(templatePath));
+			if (file instanceof TFile) {
+				return await this.app.vault.cachedRead(file);
 			}
+			console.warn(`[SyncService] Note template file not found: ${templatePath}, using the template from settings`);
 		}
 
-		if (bookmark.collection_id !== null && bookmark.collection_id !== undefined) {
-			lines.push(`collection_id: ${bookmark.collection_id}`);
-		}
+		return this.settings.noteTemplate.trim() ? this.settings.noteTemplate : DEFAULT_NOTE_TEMPLATE;
+	}
 
-		if (bookmark.view !== undefined) {
-			lines.push(`view: ${bookmark.view}`);
+	private async getNoteTemplate(): Promise<string> {
+		if (this.noteTemplate === null) {
+			this.noteTemplate = await this.loadNoteTemplate();
 		}
+		return this.noteTemplate;
+	}
 
-		if (bookmark.brief) {
-			lines.push(`brief: "${bookmark.brief.replace(/"/g, '\\"').replace(/\n/g, ' ')}"`);
+	/**
+	 * Render SAMPLE_BOOKMARK with the given template, for the settings tab preview.
+	 */
+	renderNotePreview(template: string): string {
+		const sampleContent = '# 示例文章\n\n这里是抓取到的网页正文。'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+		const previous = this.collections;
+		this.setCollections([SAMPLE_COLLECTION]);
+		try {
+			return this.generateMarkdownContent(template, SAMPLE_BOOKMARK, sampleContent, SAMPLE_METADATA);
+		} finally {
+			this.collections = previous;
 		}
+	}
 
-		if (bookmark.description) {
-			lines.push(`description: "${bookmark.description.replace(/"/g, '\\"').replace(/\n/g, ' ')}"`);
-		}
+	private generateMarkdownContent(template: string, bookmark: PinboxBookmark, webContent: string | null = null, metadata: ArticleMetadata = {}): string {
+		const { frontmatter, body } = this.renderNote(template, bookmark, this.buildContentBlock(bookmark, webContent), metadata);
+		return frontmatter + body + USER_CONTENT_MARKER + '\n';
+	}
 
-		const imageUrl = bookmark.thumbnail || bookmark.cover;
-		if (imageUrl) {
-			lines.push(`image: "${imageUrl}"`);
-		}
+	/**
+	 * Render the template and split it into the frontmatter block and the part of
+	 * the note that goes above USER_CONTENT_MARKER. `contentBlock` is the text that
+	 * goes between the content markers.
+	 */
+	private renderNote(template: string, bookmark: PinboxBookmark, contentBlock: string, metadata: ArticleMetadata = {}): { frontmatter: string; body: string } {
+		const rendered = renderTemplate(template, this.buildTemplateContext(bookmark, contentBlock, metadata));
+		const { frontmatter, body } = this.splitFrontmatter(rendered);
+		// Keep exactly one blank line before the user content marker
+		return { frontmatter, body: body.replace(/\s*$/, '\n\n') };
+	}
 
-		lines.push(`synced_at: ${new Date().toISOString()}`);
-		lines.push('---');
-		lines.push('');
+	private buildTemplateContext(bookmark: PinboxBookmark, contentBlock: string, metadata: ArticleMetadata = {}): TemplateContext {
+		return {
+			id: bookmark.id,
+			title: bookmark.title || 'Untitled',
+			url: bookmark.url,
+			item_type: bookmark.item_type || 'unknown',
+			created_at: bookmark.created_at,
+			tags: getTagNames(bookmark.tags),
+			...this.getCollectionContext(bookmark.collection_id ?? null),
+			view: bookmark.view,
+			brief: bookmark.brief,
+			description: bookmark.description,
+			note: bookmark.note,
+			image: bookmark.thumbnail || bookmark.cover,
+			...getMetadataContext(metadata),
+			snapshot: this.getSnapshotLink(bookmark.id),
+			synced_at: new Date().toISOString(),
+			content: contentBlock ? `${CONTENT_START_MARKER}\n${contentBlock}\n${CONTENT_END_MARKER}` : '',
+		};
+	}
 
-		// Note (user's personal notes)
-		if (bookmark.note) {
-			lines.push('## 笔记'); // /skip I need use Chinese due to the majority of the target users is Chinese.
-			lines.push('');
-			lines.push(bookmark.note);
-			lines.push('');
-		}
+	// The collection_* template variables
+	private getCollectionContext(collectionId: number | null) {
+		const collectionPath = collectionId !== null ? this.getCollectionPath(collectionId) : [];
+		return {
+			collection: collectionPath.join('/'),
+			collection_name: collectionPath[collectionPath.length - 1] ?? '',
+			collection_path: collectionPath,
+			collection_note: collectionId !== null && this.settings.collectionNotes ? this.getCollectionNoteLink(collectionId) : '',
+			collection_id: collectionId,
+		};
+	}
 
+	private buildContentBlock(bookmark: PinboxBookmark, webContent: string | null): string {
 		// Web content (if fetched successfully)
 		if (webContent && webContent.length > 0) {
-			lines.push(webContent);
-		} else if (bookmark.url) {
-			// If web content couldn't be fetched, add a note about it
-			lines.push('> ⚠️ 无法自动获取网页内容。可能的原因:'); // /skip I need use Chinese due to the majority of the target users is Chinese.
-			lines.push('> - 网页需要 JavaScript 才能加载内容'); // /skip I need use Chinese due to the majority of the target users is Chinese.
-			lines.push('> - 网页加载速度过慢'); // /skip I need use Chinese due to the majority of the target users is Chinese.
-			lines.push('> - 网页需要登录或特殊权限'); // /skip I need use Chinese due to the majority of the target users is Chinese.
-			lines.push('> - 网页链接已失效'); // /skip I need use Chinese due to the majority of the target users is Chinese.
-			lines.push('>');
-			lines.push('> 请在元数据中点击 url 链接查看完整内容。'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+			return webContent;
 		}
 
-		return lines.join('\n');
+		if (getContentKind(bookmark.url, bookmark.item_type) === 'text') {
+			return '';
+		}
+
+		// If web content couldn't be fetched, add a note about it
+		const fallbackTemplate = this.settings.contentFallbackTemplate.trim() ? this.settings.contentFallbackTemplate : DEFAULT_CONTENT_FALLBACK_TEMPLATE;
+		return renderTemplate(fallbackTemplate, this.buildTemplateContext(bookmark, '')).trim();
 	}
 }
@@ -0,0 +1,65 @@
+import { setIcon } from 'obsidian';
+import { SyncProgress } from './syncService';
+
+/**
+ * Status bar item shown while a sync runs: the current phase, counts and a
+ * button to cancel. Hidden between syncs.
+ */
+export class SyncStatusBar {
+	private el: HTMLElement;
+	private textEl: HTMLElement;
+
+	constructor(el: HTMLElement, onCancel: () => void) {
+		this.el = el;
+		this.el.addClass('pinbox-sync-status');
+		this.textEl = this.el.createSpan({ cls: 'pinbox-sync-status-text' });
+
+		const cancelButton = this.el.createSpan({
+			cls: 'pinbox-sync-status-cancel',
+			attr: {
+				'aria-label': '取消同步' // /skip I need use Chinese due to the majority of the target users is Chinese.
+			}
+		});
+		setIcon(cancelButton, 'x');
+		cancelButton.addEventListener('click', onCancel);
+
+		this.clear();
+	}
+
+	update(progress: SyncProgress) {
+		this.textEl.setText(this.formatProgress(progress));
+		this.el.show();
+	}
+
+	setCancelling() {
+		this.textEl.setText('Pinbox：正在取消...'); // /skip I need use Chinese due to the majority of the target users is Chinese.
+	}
+
+	clear() {
+		this.textEl.setText('');
+		this.el.hide();
+	}
+
+	private formatProgress(progress: SyncProgress): string {
+		switch (progress.phase) {
+			case 'collections':
+				return 'Pinbox：正在获取收藏夹...'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			case 'items':
+				return `Pinbox：正在获取书签（${progress.itemsFetched}）`; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			case 'push':
+				return 'Pinbox：正在把笔记中的修改同步到 Pinbox...'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+			case 'notes': {
+				const parts = [`Pinbox：写入笔记 ${progress.processed}/${progress.total}`]; // /skip I need use Chinese due to the majority of the target users is Chinese.
+				if (progress.articlesFetched > 0) {
+					parts.push(`网页 ${progress.articlesFetched}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				}
+				if (progress.imagesTotal > 0) {
+					parts.push(`图片 ${progress.imagesDownloaded}/${progress.imagesTotal}`); // /skip I need use Chinese due to the majority of the target users is Chinese.
+				}
+				return parts.join(' · ');
+			}
+			case 'deletions':
+				return 'Pinbox：正在检查已删除的书签...'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}
+	}
+}
@@ -0,0 +1,77 @@
+import { App, Modal, Setting } from 'obsidian';
+
+export interface TextPromptOptions {
+	title: string;
+	label: string;
+	value?: string;
+	confirmText: string;
+}
+
+class TextPromptModal extends Modal {
+	private options: TextPromptOptions;
+	private resolve: (value: string | null) => void;
+	private value: string;
+	private submitted = false;
+
+	constructor(app: App, options: TextPromptOptions, resolve: (value: string | null) => void) {
+		super(app);
+		this.options = options;
+		this.resolve = resolve;
+		this.value = options.value ?? '';
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.titleEl.setText(this.options.title);
+
+		new Setting(contentEl)
+			.setName(this.options.label)
+			.addText(text => {
+				text.setValue(this.value)
+					.onChange(value => {
+						this.value = value;
+					});
+				text.inputEl.addEventListener('keydown', (event) => {
+					if (event.key === 'Enter' && !event.isComposing) {
+						event.preventDefault();
+						this.submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.select());
+			});
+
+		const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+
+		buttonContainer.createEl('button', {
+			text: '取消' // /skip I need use Chinese due to the majority of the target users is Chinese.
+		}).addEventListener('click', () => this.close());
+
+		buttonContainer.createEl('button', {
+			text: this.options.confirmText,
+			cls: 'mod-cta'
+		}).addEventListener('click', () => this.submit());
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.submitted ? this.value.trim() : null);
+	}
+
+	private submit() {
+		if (!this.value.trim()) {
+			return;
+		}
+		this.submitted = true;
+		this.close();
+	}
+}
+
+/**
+ * Ask for a single line of text, e.g. a name. Resolves to the trimmed text,
+ * or null when the modal is cancelled or closed.
+ */
+export function promptText(app: App, options: TextPromptOptions): Promise<string | null> {
+	return new Promise(resolve => {
+		new TextPromptModal(app, options, resolve).open();
+	});
+}
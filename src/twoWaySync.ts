@@ -0,0 +1,129 @@
+import { PinboxBookmark } from './pinboxApi';
+import { getTagNames, hashString } from './syncLedger';
+
+/**
+ * Fields edited in the vault that go back to Pinbox: `title` and `tags` in the
+ * frontmatter and the text of the note section. The ledger keeps a hash of
+ * each as Pinbox had it and as the note showed it after the last sync, which
+ * tells which side changed since.
+ */
+export type EditableField = 'title' | 'tags' | 'note';
+
+export const EDITABLE_FIELDS: EditableField[] = ['title', 'tags', 'note'];
+
+export interface EditableValues {
+	title?: string;
+	tags?: string[];
+	note?: string;
+}
+
+export type FieldHashes = Partial<Record<EditableField, string>>;
+
+// Which side wins when a field was edited in the note and in Pinbox
+export type ConflictStrategy = 'remote' | 'local' | 'ask';
+
+export interface EditConflict {
+	id: number;
+	title: string;
+	fields: EditableField[];
+	local: EditableValues;
+	remote: EditableValues;
+}
+
+// null leaves both sides as they are until the next sync
+export type ConflictResolution = 'local' | 'remote' | null;
+
+export interface EditComparison {
+	// Changed in the note only
+	push: EditableField[];
+	// Changed on both sides, to different values
+	conflicts: EditableField[];
+}
+
+// The default template writes the Pinbox note under this heading
+export const NOTE_HEADING = '## 笔记'; // /skip I need use Chinese due to the majority of the target users is Chinese.
+
+export function getRemoteValues(bookmark: PinboxBookmark): EditableValues {
+	return {
+		title: (bookmark.title ?? '').trim(),
+		tags: getTagNames(bookmark.tags),
+		note: (bookmark.note ?? '').trim(),
+	};
+}
+
+/**
+ * The values as the note shows them. `body` is the managed part of the note,
+ * above the content block. Fields the template doesn't write are left out,
+ * they can't be edited in the note.
+ */
+export function readNoteValues(frontmatter: Record<string, unknown>, body: string, template: string, managedKeys: string[]): EditableValues {
+	const values: EditableValues = {};
+	if (managedKeys.includes('title')) {
+		values.title = typeof frontmatter.title === 'string' || typeof frontmatter.title === 'number' ? String(frontmatter.title).trim() : '';
+	}
+	if (managedKeys.includes('tags')) {
+		values.tags = normalizeTags(frontmatter.tags);
+	}
+	if (template.split('\n').some(line => line.trim() === NOTE_HEADING)) {
+		values.note = readNoteSection(body);
+	}
+	return values;
+}
+
+export function hashEditableValues(values: EditableValues): FieldHashes {
+	const hashes: FieldHashes = {};
+	for (const field of EDITABLE_FIELDS) {
+		const value = values[field];
+		if (value !== undefined) {
+			// Tag order is not an edit
+			hashes[field] = hashString(JSON.stringify(Array.isArray(value) ? [...value].sort() : value));
+		}
+	}
+	return hashes;
+}
+
+/**
+ * Three-way comparison of the note and Pinbox against the hashes of the last
+ * sync. Fields changed in Pinbox only are left to the normal update, fields
+ * the ledger has no hash for are ignored.
+ */
+export function compareEdits(local: FieldHashes, remote: FieldHashes, lastLocal: FieldHashes, lastRemote: FieldHashes): EditComparison {
+	const comparison: EditComparison = { push: [], conflicts: [] };
+	for (const field of EDITABLE_FIELDS) {
+		if (local[field] === undefined || lastLocal[field] === undefined || local[field] === lastLocal[field]) {
+			continue;
+		}
+		if (remote[field] === lastRemote[field]) {
+			comparison.push.push(field);
+		} else if (remote[field] !== local[field]) {
+			comparison.conflicts.push(field);
+		}
+	}
+	return comparison;
+}
+
+// Text below the note heading, up to the next heading of the same level or higher
+function readNoteSection(body: string): string {
+	const lines = body.split('\n');
+	const start = lines.findIndex(line => line.trim() === NOTE_HEADING);
+	if (start === -1) {
+		return '';
+	}
+	const section: string[] = [];
+	for (const line of lines.slice(start + 1)) {
+		if (/^#{1,2}\s/.test(line)) {
+			break;
+		}
+		section.push(line);
+	}
+	return section.join('\n').trim();
+}
+
+// Obsidian accepts a list, or one string of tags separated by commas or spaces
+function normalizeTags(value: unknown): string[] {
+	const tags = Array.isArray(value) ? value : typeof value === 'string' ? value.split(/[,\s]+/) : [];
+	return tags
+		.filter((tag): tag is string | number => typeof tag === 'string' || typeof tag === 'number')
+		.map(tag => String(tag).replace(/^#/, '').trim())
+		.filter(tag => tag);
+}
@@ -0,0 +1,189 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { ExtractedMetadata, SITE_EXTRACTORS, extractContent, findGenericRoot, findSiteExtractor } from '../src/contentExtractors';
+
+interface SiteCase {
+	site: string;
+	url: string;
+	// Selector of the element the extractor should pick
+	root: string;
+	// A sentence of the article
+	article: string;
+	// Page chrome outside the article
+	chrome: string;
+	metadata: ExtractedMetadata;
+}
+
+const SITE_CASES: SiteCase[] = [
+	{
+		site: 'wechat',
+		url: 'https://mp.weixin.qq.com/s/AbCdEf',
+		root: '#js_content',
+		article: '第一步是统一入口',
+		chrome: '微信扫一扫关注该公众号',
+		metadata: { author: '张三', siteName: '效率工具箱' },
+	},
+	{
+		site: 'zhihu',
+		url: 'https://zhuanlan.zhihu.com/p/123456',
+		root: '.Post-RichText',
+		article: '把长表达式拆成几个有名字的部分',
+		chrome: '这篇写得很清楚',
+		metadata: { author: '李四', published: '2024-02-01T10:00:00.000Z', siteName: '知乎' },
+	},
+	{
+		site: 'juejin',
+		url: 'https://juejin.cn/post/7300000000000000000',
+		root: '.article-content',
+		article: '把值赋给一个常量',
+		chrome: '相关文章推荐',
+		metadata: { author: '王五', published: '2024-03-05T09:30:00.000Z', siteName: '稀土掘金' },
+	},
+	{
+		site: 'sspai',
+		url: 'https://sspai.com/post/80000',
+		root: '.article-body .content',
+		article: '先花一周时间记下自己每天重复的操作',
+		chrome: '写得不错，已经在用了',
+		metadata: { author: '赵六', siteName: '少数派' },
+	},
+	{
+		site: 'medium',
+		url: 'https://medium.com/@janedoe/writing-tests-that-explain-themselves-1a2b3c',
+		root: 'article section',
+		article: 'Keep the setup close to the assertion',
+		chrome: 'More from Jane Doe',
+		metadata: { author: 'Jane Doe', published: '2024-04-10T12:00:00.000Z', siteName: 'Medium' },
+	},
+	{
+		site: 'github',
+		url: 'https://github.com/octo-org/notes-cli',
+		root: '#readme article.markdown-body',
+		article: 'Every note is a Markdown file',
+		chrome: 'Plain text notes from the terminal',
+		metadata: { author: 'octo-org', siteName: 'GitHub' },
+	},
+	{
+		site: 'csdn',
+		url: 'https://blog.csdn.net/xiaosun/article/details/130000000',
+		root: '#content_views',
+		article: '把常量写在前面',
+		chrome: '博主的其他文章',
+		metadata: { author: '程序员小孙', published: '于 2024-05-20 14:03:11 发布', siteName: 'CSDN' },
+	},
+	{
+		site: 'cnblogs',
+		url: 'https://www.cnblogs.com/zhouqi/p/17000000.html',
+		root: '#cnblogs_post_body',
+		article: '第一行是摘要',
+		chrome: '园龄',
+		metadata: { author: '周七', published: '2024-06-01 20:15', siteName: '博客园' },
+	},
+	{
+		site: 'jianshu',
+		url: 'https://www.jianshu.com/p/0a1b2c3d4e5f',
+		root: 'article',
+		article: '每读完一章',
+		chrome: '推荐阅读',
+		metadata: { author: '吴八', siteName: '简书' },
+	},
+	{
+		site: 'substack',
+		url: 'https://theslowweb.substack.com/p/pages-are-heavier-than-articles',
+		root: '.available-content .body',
+		article: 'A slow page costs more than time',
+		chrome: 'Share this post',
+		metadata: { author: 'Sam Rivera', published: '2024-07-15T06:00:00+00:00', siteName: 'The Slow Web' },
+	},
+];
+
+function loadFixture(name: string): Document {
+	const html = readFileSync(join(__dirname, 'fixtures', `${name}.html`), 'utf8');
+	return new DOMParser().parseFromString(html, 'text/html');
+}
+
+function getExtractor(name: string) {
+	const extractor = SITE_EXTRACTORS.find(candidate => candidate.name === name);
+	if (!extractor) {
+		throw new Error(`No extractor named ${name}`);
+	}
+	return extractor;
+}
+
+describe('site extractors', () => {
+	it('has a saved page for every extractor', () => {
+		expect(SITE_CASES.map(testCase => testCase.site).sort()).toEqual(SITE_EXTRACTORS.map(extractor => extractor.name).sort());
+	});
+
+	describe.each(SITE_CASES)('$site', (testCase) => {
+		it('is picked for its URL', () => {
+			expect(findSiteExtractor(testCase.url)?.name).toBe(testCase.site);
+		});
+
+		it('finds the article and drops the chrome inside it', () => {
+			const doc = loadFixture(testCase.site);
+			const expectedRoot = doc.querySelector(testCase.root);
+			const result = extractContent(doc, testCase.url);
+
+			expect(result?.extractor).toBe(testCase.site);
+			expect(result?.root).toBe(expectedRoot);
+			expect(result?.root.textContent).toContain(testCase.article);
+			expect(result?.root.textContent).not.toContain(testCase.chrome);
+			for (const selector of getExtractor(testCase.site).removeSelectors ?? []) {
+				expect(result?.root.querySelector(selector), selector).toBeNull();
+			}
+		});
+
+		it('reads the metadata', () => {
+			expect(extractContent(loadFixture(testCase.site), testCase.url)?.metadata).toEqual(testCase.metadata);
+		});
+
+		it('is matched by the generic scoring too', () => {
+			const root = findGenericRoot(loadFixture(testCase.site));
+
+			expect(root.tagName).not.toBe('BODY');
+			expect(root.textContent).toContain(testCase.article);
+			expect(root.textContent).not.toContain(testCase.chrome);
+		});
+	});
+
+	it('keeps image captions that have text', () => {
+		const result = extractContent(loadFixture('jianshu'), 'https://www.jianshu.com/p/0a1b2c3d4e5f');
+
+		expect(result?.root.querySelectorAll('.image-caption')).toHaveLength(1);
+		expect(result?.root.textContent).toContain('图二：整理后的书架');
+	});
+
+	it('does not match other hosts ending in the same name', () => {
+		expect(findSiteExtractor('https://notgithub.com/octo-org/notes-cli')).toBeNull();
+		expect(findSiteExtractor('not a url')).toBeNull();
+	});
+});
+
+describe('generic extraction', () => {
+	it('picks the article over navigation, link lists and comments', () => {
+		const doc = loadFixture('generic');
+		const result = extractContent(doc, 'https://engineering.example.com/blog/docs-in-the-repo');
+
+		expect(result?.extractor).toBe('generic');
+		expect(result?.root).toBe(doc.querySelector('.entry'));
+		expect(result?.root.textContent).not.toContain('Popular posts');
+		expect(result?.root.textContent).not.toContain('Great post');
+		expect(result?.metadata).toEqual({});
+	});
+
+	it('is used when a known site changed its markup', () => {
+		const doc = loadFixture('generic');
+		const result = extractContent(doc, 'https://zhuanlan.zhihu.com/p/123456');
+
+		expect(result?.extractor).toBe('generic');
+		expect(result?.root).toBe(doc.querySelector('.entry'));
+	});
+
+	it('falls back to the body for short pages', () => {
+		const doc = new DOMParser().parseFromString('<body><div class="content"><p>Only a short paragraph of text here.</p></div></body>', 'text/html');
+
+		expect(findGenericRoot(doc)).toBe(doc.body);
+	});
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { addImageReference, createImageIndex, findImageByUrl, forgetImagePaths, formatFileSize, hashContent, releaseItemImages } from '../src/imageStore';
+
+function bytes(text: string): ArrayBuffer {
+	return new TextEncoder().encode(text).buffer;
+}
+
+describe('hashContent', () => {
+	it('is the first 128 bits of the SHA-256 as hex', async () => {
+		// SHA-256("abc") is ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad,
+		// its 0x01 byte checks the zero padding
+		await expect(hashContent(bytes('abc'))).resolves.toBe('ba7816bf8f01cfea414140de5dae2223');
+	});
+
+	it('gives the same name to the same bytes only', async () => {
+		const first = await hashContent(bytes('image one'));
+
+		await expect(hashContent(bytes('image one'))).resolves.toBe(first);
+		await expect(hashContent(bytes('image two'))).resolves.not.toBe(first);
+	});
+});
+
+describe('image index', () => {
+	it('shares one file between items with the same image', () => {
+		const index = createImageIndex();
+		addImageReference(index, 'aaa', 'Pinbox/images/aaa.png', 'https://example.com/a.png', 1);
+		addImageReference(index, 'aaa', 'Pinbox/images/aaa.png', 'https://cdn.example.com/copy.png', 2);
+
+		expect(index.images.aaa).toEqual({ path: 'Pinbox/images/aaa.png', items: [1, 2] });
+		expect(findImageByUrl(index, 'https://cdn.example.com/copy.png')).toBe('aaa');
+		expect(findImageByUrl(index, 'https://example.com/other.png')).toBeNull();
+	});
+
+	it('returns the files no other item uses when an item is released', () => {
+		const index = createImageIndex();
+		addImageReference(index, 'aaa', 'Pinbox/images/aaa.png', 'https://example.com/a.png', 1);
+		addImageReference(index, 'aaa', 'Pinbox/images/aaa.png', 'https://example.com/a.png', 2);
+		addImageReference(index, 'bbb', 'Pinbox/images/bbb.jpg', 'https://example.com/b.jpg', 1);
+
+		expect(releaseItemImages(index, 1)).toEqual(['Pinbox/images/bbb.jpg']);
+		expect(index.images.aaa.items).toEqual([2]);
+		expect(findImageByUrl(index, 'https://example.com/b.jpg')).toBeNull();
+		expect(index.urls).toEqual({ 'https://example.com/a.png': 'aaa' });
+	});
+
+	it('forgets images by path', () => {
+		const index = createImageIndex();
+		addImageReference(index, 'aaa', 'Pinbox/images/aaa.png', 'https://example.com/a.png', 1);
+		addImageReference(index, 'bbb', 'Pinbox/images/bbb.jpg', 'https://example.com/b.jpg', 1);
+
+		forgetImagePaths(index, ['Pinbox/images/aaa.png']);
+
+		expect(Object.keys(index.images)).toEqual(['bbb']);
+		expect(Object.keys(index.urls)).toEqual(['https://example.com/b.jpg']);
+	});
+});
+
+describe('formatFileSize', () => {
+	it('picks the unit by size', () => {
+		expect(formatFileSize(512)).toBe('512 B');
+		expect(formatFileSize(1536)).toBe('1.5 KB');
+		expect(formatFileSize(3 * 1024 * 1024)).toBe('3.0 MB');
+	});
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { getAvailableNotePath } from '../src/notePaths';
+
+function takenPaths(...paths: string[]) {
+	const taken = new Set(paths);
+	return (path: string) => taken.has(path);
+}
+
+describe('getAvailableNotePath', () => {
+	it('uses the plain name when it is free', () => {
+		expect(getAvailableNotePath('Pinbox', 'Article', 42, takenPaths())).toBe('Pinbox/Article.md');
+	});
+
+	it('appends the item id when the name is taken', () => {
+		expect(getAvailableNotePath('Pinbox', 'Article', 42, takenPaths('Pinbox/Article.md'))).toBe('Pinbox/Article (42).md');
+	});
+
+	it('numbers the id once that is taken as well', () => {
+		const isTaken = takenPaths('Pinbox/Article.md', 'Pinbox/Article (42).md', 'Pinbox/Article (42-2).md');
+
+		expect(getAvailableNotePath('Pinbox', 'Article', 42, isTaken)).toBe('Pinbox/Article (42-3).md');
+	});
+
+	it('keeps the note at its own path', () => {
+		const isTaken = takenPaths('Pinbox/Article.md', 'Pinbox/Article (42).md');
+
+		expect(getAvailableNotePath('Pinbox', 'Article', 42, isTaken, 'Pinbox/Article (42).md')).toBe('Pinbox/Article (42).md');
+	});
+
+	it('normalizes the folder', () => {
+		expect(getAvailableNotePath('/Pinbox//Reading/', 'Article', 42, takenPaths())).toBe('Pinbox/Reading/Article.md');
+		expect(getAvailableNotePath('/', 'Article', 42, takenPaths())).toBe('Article.md');
+	});
+});
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { TemplateContext, getTemplateFrontmatterKeys, renderTemplate } from '../src/noteTemplate';
+
+// Local time, so the formatted dates don't depend on the time zone
+const CREATED = new Date(2024, 0, 31, 8, 30, 5);
+
+const CONTEXT: TemplateContext = {
+	title: 'Pages are heavier than articles',
+	description: '  First line\n  second line  ',
+	tags: ['web', 'performance'],
+	no_tags: [],
+	created_at: '2024-01-31 08:30:05',
+	updated_at: CREATED.getTime() / 1000,
+	note: '',
+	url: 'https://example.com/article',
+	count: 3,
+};
+
+describe('renderTemplate', () => {
+	it('fills in variables, missing ones render empty', () => {
+		expect(renderTemplate('# {{ title }}\n{{url}}{{missing}}', CONTEXT)).toBe('# Pages are heavier than articles\nhttps://example.com/article');
+	});
+
+	it('joins lists with commas unless told otherwise', () => {
+		expect(renderTemplate('{{tags}}', CONTEXT)).toBe('web, performance');
+		expect(renderTemplate('{{tags|join: #}}', CONTEXT)).toBe('web #performance');
+	});
+
+	it('formats dates from strings and timestamps', () => {
+		expect(renderTemplate('{{created_at|date}}', CONTEXT)).toBe('2024-01-31');
+		expect(renderTemplate('{{created_at|date:YYYY/MM/DD HH:mm}}', CONTEXT)).toBe('2024/01/31 08:30');
+		expect(renderTemplate('{{updated_at|date:HH:mm:ss}}', CONTEXT)).toBe('08:30:05');
+	});
+
+	it('reads {{name:FORMAT}} as a date filter', () => {
+		expect(renderTemplate('{{created_at:YYYY-MM}}', CONTEXT)).toBe('2024-01');
+		expect(renderTemplate('{{created_at:MMM D|upper}}', CONTEXT)).toBe('JAN 31');
+	});
+
+	it('leaves values that are not dates alone', () => {
+		expect(renderTemplate('{{title|date}}', CONTEXT)).toBe('Pages are heavier than articles');
+	});
+
+	it('quotes values for YAML', () => {
+		expect(renderTemplate('{{title|yaml}}', { title: 'Say "hi": now' })).toBe('"Say \\"hi\\": now"');
+		expect(renderTemplate('{{tags|yaml}}', CONTEXT)).toBe('["web","performance"]');
+		expect(renderTemplate('{{count|yaml}}', CONTEXT)).toBe('3');
+		expect(renderTemplate('{{missing|yaml}}', CONTEXT)).toBe('""');
+	});
+
+	it('applies text filters in order', () => {
+		expect(renderTemplate('{{description|oneline}}', CONTEXT)).toBe('First line second line');
+		expect(renderTemplate('{{title|lower}}', CONTEXT)).toBe('pages are heavier than articles');
+		expect(renderTemplate('{{description|oneline|upper}}', CONTEXT)).toBe('FIRST LINE SECOND LINE');
+	});
+
+	it('uses the default for empty values only', () => {
+		expect(renderTemplate('{{note|default:No note}}', CONTEXT)).toBe('No note');
+		expect(renderTemplate('{{no_tags|default:none}}', CONTEXT)).toBe('none');
+		expect(renderTemplate('{{title|default:Untitled}}', CONTEXT)).toBe('Pages are heavier than articles');
+	});
+
+	it('passes the value through unknown filters', () => {
+		expect(renderTemplate('{{title|shout}}', CONTEXT)).toBe('Pages are heavier than articles');
+	});
+
+	it('renders #if and #unless blocks', () => {
+		expect(renderTemplate('{{#if tags}}has tags{{else}}no tags{{/if}}', CONTEXT)).toBe('has tags');
+		expect(renderTemplate('{{#if no_tags}}has tags{{else}}no tags{{/if}}', CONTEXT)).toBe('no tags');
+		expect(renderTemplate('{{#unless note}}no note{{/unless}}', CONTEXT)).toBe('no note');
+		expect(renderTemplate('{{#if note}}{{note}}{{/if}}', CONTEXT)).toBe('');
+	});
+
+	it('nests blocks', () => {
+		const template = '{{#if tags}}[{{#if note}}note{{else}}{{#unless missing}}{{count}}{{/unless}}{{/if}}]{{/if}}';
+
+		expect(renderTemplate(template, CONTEXT)).toBe('[3]');
+	});
+
+	it('closes blocks left open at the end', () => {
+		expect(renderTemplate('a{{#if note}}b', CONTEXT)).toBe('a');
+	});
+
+	it('does not leave empty lines for block tags on their own line', () => {
+		const template = 'title: {{title}}\n{{#if note}}\nnote: {{note}}\n{{else}}\nnote: none\n{{/if}}\nurl: {{url}}\n';
+
+		expect(renderTemplate(template, CONTEXT)).toBe('title: Pages are heavier than articles\nnote: none\nurl: https://example.com/article\n');
+	});
+});
+
+describe('getTemplateFrontmatterKeys', () => {
+	it('lists the top-level frontmatter keys once each', () => {
+		const template = '---\ntitle: {{title|yaml}}\ntags:\n  - pinbox\n{{#if note}}\nnote: {{note|yaml}}\n{{/if}}\ntitle: again\n---\n\n# {{title}}\nkey: not frontmatter\n';
+
+		expect(getTemplateFrontmatterKeys(template)).toEqual(['title', 'tags', 'note']);
+	});
+
+	it('is empty without frontmatter', () => {
+		expect(getTemplateFrontmatterKeys('# {{title}}\ntitle: body text\n')).toEqual([]);
+	});
+});
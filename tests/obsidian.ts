@@ -0,0 +1,18 @@
+/**
+ * Stand-in for the parts of the obsidian module the tested code uses at
+ * runtime. Tests that make requests mock requestUrl themselves.
+ */
+import moment from 'moment';
+import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+
+export { moment };
+
+// Like Obsidian's: forward slashes, no repeated, leading or trailing ones
+export function normalizePath(path: string): string {
+	const normalized = path.replace(/\\/g, '/').replace(/\/+/g, '/').replace(/^\/|\/$/g, '');
+	return normalized === '' ? '/' : normalized;
+}
+
+export function requestUrl(params: RequestUrlParam): Promise<RequestUrlResponse> {
+	return Promise.reject(new Error(`Unexpected request to ${params.url}`));
+}
@@ -0,0 +1,195 @@
+import type { RequestUrlResponse } from 'obsidian';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestCancelledError, RequestLimits, RequestScheduler, getHeader, mapConcurrent } from '../src/requestScheduler';
+
+const { requestUrl } = vi.hoisted(() => ({ requestUrl: vi.fn() }));
+vi.mock('obsidian', () => ({ requestUrl }));
+
+const LIMITS: RequestLimits = { apiConcurrency: 2, webConcurrency: 2, webHostInterval: 500 };
+
+function response(status: number, headers: Record<string, string> = {}): RequestUrlResponse {
+	return { status, headers } as RequestUrlResponse;
+}
+
+describe('RequestScheduler', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+		requestUrl.mockReset();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it('always asks requestUrl not to throw', async () => {
+		requestUrl.mockResolvedValue(response(200));
+
+		await new RequestScheduler(LIMITS).request({ url: 'https://withpinbox.com/api/items' });
+
+		expect(requestUrl).toHaveBeenCalledWith({ url: 'https://withpinbox.com/api/items', throw: false });
+	});
+
+	it('throws on error statuses unless throw is false', async () => {
+		requestUrl.mockResolvedValue(response(404));
+		const scheduler = new RequestScheduler(LIMITS);
+
+		await expect(scheduler.request({ url: 'https://withpinbox.com/a' })).rejects.toThrow('Request failed, status 404');
+		await expect(scheduler.request({ url: 'https://example.com/b', throw: false })).resolves.toMatchObject({ status: 404 });
+	});
+
+	it('retries a 429 after the seconds in Retry-After', async () => {
+		requestUrl.mockResolvedValueOnce(response(429, { 'Retry-After': '2' })).mockResolvedValueOnce(response(200));
+
+		const request = new RequestScheduler(LIMITS).request({ url: 'https://withpinbox.com/api/items' });
+		await vi.advanceTimersByTimeAsync(1999);
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+
+		await expect(request).resolves.toMatchObject({ status: 200 });
+		expect(requestUrl).toHaveBeenCalledTimes(2);
+	});
+
+	it('retries a 503 at the date in Retry-After', async () => {
+		const retryAt = new Date(Date.now() + 5000).toUTCString();
+		requestUrl.mockResolvedValueOnce(response(503, { 'retry-after': retryAt })).mockResolvedValueOnce(response(200));
+
+		const request = new RequestScheduler(LIMITS).request({ url: 'https://example.com/page' }, 'web');
+		await vi.advanceTimersByTimeAsync(4000);
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1000);
+
+		await expect(request).resolves.toMatchObject({ status: 200 });
+	});
+
+	it('caps long Retry-After values at a minute', async () => {
+		requestUrl.mockResolvedValueOnce(response(429, { 'Retry-After': '3600' })).mockResolvedValueOnce(response(200));
+
+		const request = new RequestScheduler(LIMITS).request({ url: 'https://withpinbox.com/api/items' });
+		await vi.advanceTimersByTimeAsync(60 * 1000);
+
+		await expect(request).resolves.toMatchObject({ status: 200 });
+	});
+
+	it('backs off 1s, 2s and 4s without Retry-After, then hands the response over', async () => {
+		requestUrl.mockResolvedValue(response(429));
+
+		const request = new RequestScheduler(LIMITS).request({ url: 'https://withpinbox.com/api/items', throw: false });
+		for (const [elapsed, calls] of [[0, 1], [1000, 2], [2000, 3], [4000, 4]]) {
+			await vi.advanceTimersByTimeAsync(elapsed);
+			expect(requestUrl).toHaveBeenCalledTimes(calls);
+		}
+
+		await expect(request).resolves.toMatchObject({ status: 429 });
+		expect(requestUrl).toHaveBeenCalledTimes(4);
+	});
+
+	it('holds back other requests to a host that asked to wait', async () => {
+		requestUrl.mockResolvedValueOnce(response(429, { 'Retry-After': '3' })).mockResolvedValue(response(200));
+		const scheduler = new RequestScheduler(LIMITS);
+
+		const first = scheduler.request({ url: 'https://withpinbox.com/a' });
+		await vi.advanceTimersByTimeAsync(0);
+		const second = scheduler.request({ url: 'https://withpinbox.com/b' });
+		await vi.advanceTimersByTimeAsync(2900);
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(200);
+
+		await expect(Promise.all([first, second])).resolves.toHaveLength(2);
+		expect(requestUrl).toHaveBeenCalledTimes(3);
+	});
+
+	it('spaces out requests to the same site', async () => {
+		requestUrl.mockResolvedValue(response(200));
+		const scheduler = new RequestScheduler(LIMITS);
+
+		const requests = [
+			scheduler.request({ url: 'https://example.com/a' }, 'web'),
+			scheduler.request({ url: 'https://example.com/b' }, 'web'),
+			scheduler.request({ url: 'https://example.org/c' }, 'web'),
+		];
+		await vi.advanceTimersByTimeAsync(0);
+		expect(requestUrl.mock.calls.map(([params]) => (params as { url: string }).url)).toEqual(['https://example.com/a', 'https://example.org/c']);
+		await vi.advanceTimersByTimeAsync(500);
+
+		await Promise.all(requests);
+		expect(requestUrl).toHaveBeenCalledTimes(3);
+	});
+
+	it('runs no more requests at once than the limit', async () => {
+		let running = 0;
+		let maxRunning = 0;
+		requestUrl.mockImplementation(async () => {
+			running++;
+			maxRunning = Math.max(maxRunning, running);
+			await new Promise(resolve => setTimeout(resolve, 1000));
+			running--;
+			return response(200);
+		});
+		const scheduler = new RequestScheduler({ ...LIMITS, webHostInterval: 0 });
+
+		const requests = ['a', 'b', 'c', 'd', 'e'].map(host => scheduler.request({ url: `https://${host}.example.com/` }, 'web'));
+		await vi.advanceTimersByTimeAsync(3000);
+
+		await Promise.all(requests);
+		expect(maxRunning).toBe(2);
+	});
+
+	it('does not start requests once the signal is aborted', async () => {
+		const controller = new AbortController();
+		controller.abort();
+
+		await expect(new RequestScheduler(LIMITS).request({ url: 'https://withpinbox.com/a' }, 'api', controller.signal)).rejects.toBeInstanceOf(RequestCancelledError);
+		expect(requestUrl).not.toHaveBeenCalled();
+	});
+
+	it('cancels a request waiting for its retry', async () => {
+		requestUrl.mockResolvedValue(response(429, { 'Retry-After': '5' }));
+		const controller = new AbortController();
+
+		const request = new RequestScheduler(LIMITS).request({ url: 'https://withpinbox.com/a' }, 'api', controller.signal);
+		const rejected = expect(request).rejects.toBeInstanceOf(RequestCancelledError);
+		await vi.advanceTimersByTimeAsync(1000);
+		controller.abort();
+		await vi.advanceTimersByTimeAsync(4000);
+
+		await rejected;
+		expect(requestUrl).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('mapConcurrent', () => {
+	it('keeps the order of the items', async () => {
+		const results = await mapConcurrent([30, 10, 20], 2, async (delay, index) => {
+			await new Promise(resolve => setTimeout(resolve, delay));
+			return `${index}:${delay}`;
+		});
+
+		expect(results).toEqual(['0:30', '1:10', '2:20']);
+	});
+
+	it('starts no new items after an error and throws it', async () => {
+		const started: number[] = [];
+
+		await expect(mapConcurrent([1, 2, 3, 4], 1, async (item) => {
+			started.push(item);
+			if (item === 2) {
+				throw new Error('failed on 2');
+			}
+			return item;
+		})).rejects.toThrow('failed on 2');
+		expect(started).toEqual([1, 2]);
+	});
+
+	it('handles an empty list', async () => {
+		await expect(mapConcurrent([], 4, () => Promise.resolve(1))).resolves.toEqual([]);
+	});
+});
+
+describe('getHeader', () => {
+	it('matches header names in any case', () => {
+		expect(getHeader({ 'Retry-After': ' 5 ' }, 'retry-after')).toBe('5');
+		expect(getHeader({}, 'retry-after')).toBe('');
+	});
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContentRetryEntry, getRetryIds, recordFailedAttempt } from '../src/retryQueue';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date(2024, 0, 31, 8, 0).getTime();
+
+describe('retry queue', () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.setSystemTime(NOW);
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('waits 1, 6, 24, 72 and 168 hours after each failure, then gives up', () => {
+		const queue: Record<string, ContentRetryEntry> = {};
+		const waits: number[] = [];
+		for (let i = 0; i < 6; i++) {
+			recordFailedAttempt(queue, 42, 'https://example.com/article', 'Article', `HTTP 50${i}`);
+			waits.push(queue[42].nextAttempt === 0 ? 0 : (queue[42].nextAttempt - NOW) / HOUR);
+		}
+
+		expect(waits).toEqual([1, 6, 24, 72, 168, 0]);
+		expect(queue[42]).toEqual({ url: 'https://example.com/article', title: 'Article', attempts: 6, nextAttempt: 0, lastError: 'HTTP 505' });
+	});
+
+	it('retries the entries that are due', () => {
+		const queue: Record<string, ContentRetryEntry> = {};
+		recordFailedAttempt(queue, 1, 'https://example.com/1', 'One', 'timeout');
+		vi.setSystemTime(NOW + 2 * HOUR);
+		recordFailedAttempt(queue, 2, 'https://example.com/2', 'Two', 'timeout');
+		expect(getRetryIds(queue, false)).toEqual([1]);
+
+		vi.setSystemTime(NOW + 3 * HOUR);
+		expect(getRetryIds(queue, false)).toEqual([1, 2]);
+	});
+
+	it('retries entries that gave up only when forced', () => {
+		const queue: Record<string, ContentRetryEntry> = {
+			1: { url: 'https://example.com/1', title: 'One', attempts: 5, nextAttempt: 0, lastError: 'HTTP 404' },
+			2: { url: 'https://example.com/2', title: 'Two', attempts: 1, nextAttempt: NOW + HOUR, lastError: 'timeout' },
+		};
+
+		expect(getRetryIds(queue, false)).toEqual([]);
+		expect(getRetryIds(queue, true)).toEqual([1, 2]);
+	});
+});
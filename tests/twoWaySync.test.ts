@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { PinboxBookmark } from '../src/pinboxApi';
+import { EditableValues, NOTE_HEADING, compareEdits, getRemoteValues, hashEditableValues, readNoteValues } from '../src/twoWaySync';
+
+const BASE: EditableValues = { title: 'Article', tags: ['web', 'reading'], note: 'Worth a second look' };
+
+// Hashes of the last sync, when the note and Pinbox agreed on BASE
+const LAST = hashEditableValues(BASE);
+
+function compare(local: EditableValues, remote: EditableValues) {
+	return compareEdits(hashEditableValues(local), hashEditableValues(remote), LAST, LAST);
+}
+
+describe('compareEdits', () => {
+	it('finds nothing when neither side changed', () => {
+		expect(compare(BASE, BASE)).toEqual({ push: [], conflicts: [] });
+	});
+
+	it('pushes fields changed in the note only', () => {
+		expect(compare({ ...BASE, title: 'Better title', note: 'Read it twice' }, BASE)).toEqual({ push: ['title', 'note'], conflicts: [] });
+	});
+
+	it('leaves fields changed in Pinbox only to the normal update', () => {
+		expect(compare(BASE, { ...BASE, tags: ['web'] })).toEqual({ push: [], conflicts: [] });
+	});
+
+	it('reports fields changed on both sides to different values', () => {
+		expect(compare({ ...BASE, title: 'Local title' }, { ...BASE, title: 'Remote title' })).toEqual({ push: [], conflicts: ['title'] });
+	});
+
+	it('does not report both sides making the same change', () => {
+		expect(compare({ ...BASE, note: 'Same edit' }, { ...BASE, note: 'Same edit' })).toEqual({ push: [], conflicts: [] });
+	});
+
+	it('ignores fields without a hash from the last sync', () => {
+		const local = hashEditableValues({ ...BASE, title: 'Better title' });
+
+		expect(compareEdits(local, LAST, { tags: LAST.tags, note: LAST.note }, LAST)).toEqual({ push: [], conflicts: [] });
+	});
+
+	it('ignores fields the note does not show', () => {
+		expect(compare({ title: BASE.title }, { ...BASE, note: 'Remote note' })).toEqual({ push: [], conflicts: [] });
+	});
+});
+
+describe('hashEditableValues', () => {
+	it('ignores the order of tags', () => {
+		expect(hashEditableValues({ tags: ['reading', 'web'] })).toEqual(hashEditableValues({ tags: ['web', 'reading'] }));
+	});
+
+	it('hashes only the fields it is given', () => {
+		expect(Object.keys(hashEditableValues({ title: 'Article', note: '' }))).toEqual(['title', 'note']);
+	});
+});
+
+describe('getRemoteValues', () => {
+	it('trims the fields and reads tag names', () => {
+		const bookmark = { id: 1, title: ' Article ', tags: ['web', { name: 'reading' }], note: undefined } as unknown as PinboxBookmark;
+
+		expect(getRemoteValues(bookmark)).toEqual({ title: 'Article', tags: ['web', 'reading'], note: '' });
+	});
+});
+
+describe('readNoteValues', () => {
+	const template = `---\ntitle: {{title|yaml}}\ntags: {{tags|yaml}}\n---\n\n${NOTE_HEADING}\n\n{{note}}\n`;
+
+	it('reads the frontmatter fields and the note section', () => {
+		const body = `# Article\n\n${NOTE_HEADING}\n\nFirst line\n### Detail\nSecond line\n\n## Content\n\nPage text`;
+
+		expect(readNoteValues({ title: ' Article ', tags: ['#web', 'reading'] }, body, template, ['title', 'tags'])).toEqual({
+			title: 'Article',
+			tags: ['web', 'reading'],
+			note: 'First line\n### Detail\nSecond line',
+		});
+	});
+
+	it('accepts tags as one string and numbers as titles', () => {
+		expect(readNoteValues({ title: 2024, tags: 'web, reading #later' }, '', template, ['title', 'tags'])).toEqual({
+			title: '2024',
+			tags: ['web', 'reading', 'later'],
+			note: '',
+		});
+	});
+
+	it('leaves out fields the template does not write', () => {
+		expect(readNoteValues({ title: 'Article', tags: ['web'] }, `${NOTE_HEADING}\n\nText`, '# {{title}}\n', ['title'])).toEqual({ title: 'Article' });
+	});
+});
@@ -0,0 +1,15 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+	resolve: {
+		alias: {
+			// The obsidian package only ships type definitions
+			obsidian: fileURLToPath(new URL("./tests/obsidian.ts", import.meta.url)),
+		},
+	},
+	test: {
+		environment: "jsdom",
+		include: ["tests/**/*.test.ts"],
+	},
+});